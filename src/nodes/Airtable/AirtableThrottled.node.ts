@@ -0,0 +1,9 @@
+import { createThrottledNode } from "../HttpRequest/throttled-node";
+import { nodeBaseModules } from "../HttpRequest/node-loader";
+
+export class AirtableThrottled extends createThrottledNode({
+  name: "airtableThrottled",
+  displayName: "Airtable (Throttled)",
+  baseName: "Airtable",
+  modules: nodeBaseModules("Airtable/Airtable.node", "Airtable"),
+}) {}
@@ -0,0 +1,127 @@
+import { parseTimeValueToMs, type HeaderUnit } from "./throttling";
+import type { ProviderProfile } from "./providers";
+
+/**
+ * A user-defined rule that recognizes a throttled response by its body,
+ * e.g. GraphQL `{"errors":[{"extensions":{"code":"THROTTLED"}}]}` sent with 200.
+ */
+export interface BodyThrottleRule {
+  /** Path to the value to test, e.g. "errors[*].extensions.code" */
+  matchPath: string;
+  /** Value that marks the response as throttled ("" = any non-null value) */
+  matchValue: string;
+  /** Optional path to the wait time, e.g. "error.retry_after" */
+  waitPath: string;
+  waitUnit: HeaderUnit;
+}
+
+/** Result of a body match: the wait the body asks for, if it names one */
+export interface BodyThrottle {
+  waitMs: number | null;
+}
+
+// Bodies larger than this are not parsed just to look for a throttle marker
+const MAX_PARSED_BODY_BYTES = 1_000_000;
+
+/**
+ * Returns the body as a JSON value. V3 requests most responses as
+ * arraybuffer and parses them itself, so Buffers and strings that look
+ * like JSON are parsed here. Anything else yields undefined.
+ */
+export function parseJsonBody(body: unknown): unknown {
+  if (body === null || body === undefined) return undefined;
+
+  let text: string;
+  if (Buffer.isBuffer(body)) {
+    if (body.length > MAX_PARSED_BODY_BYTES) return undefined;
+    text = body.toString("utf8");
+  } else if (typeof body === "string") {
+    if (body.length > MAX_PARSED_BODY_BYTES) return undefined;
+    text = body;
+  } else {
+    return typeof body === "object" ? body : undefined;
+  }
+
+  const trimmed = text.trimStart();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves a dot path against a JSON value and returns every value found.
+ *
+ * - "a.b.c", "a[0].b" and a leading "$." are supported
+ * - "[*]" or ".*" visits every element/property
+ * - A plain key applied to an array is applied to each element, so
+ *   "errors.extensions.code" is the same as "errors[*].extensions.code"
+ */
+export function valuesAtPath(root: unknown, path: string): unknown[] {
+  const tokens = path
+    .trim()
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\d+|\*)\]/g, ".$1")
+    .split(".")
+    .filter((t) => t.length > 0);
+
+  let current: unknown[] = [root];
+  for (const token of tokens) {
+    const next: unknown[] = [];
+    for (const value of current) collect(value, token, next);
+    current = next;
+  }
+  return current.filter((v) => v !== null && v !== undefined);
+}
+
+function collect(value: unknown, token: string, out: unknown[]): void {
+  if (value === null || typeof value !== "object") return;
+
+  if (Array.isArray(value)) {
+    if (token === "*") out.push(...value);
+    else if (/^\d+$/.test(token)) out.push(value[parseInt(token, 10)]);
+    else for (const element of value) collect(element, token, out);
+    return;
+  }
+
+  const obj = value as Record<string, unknown>;
+  if (token === "*") out.push(...Object.values(obj));
+  else out.push(obj[token]);
+}
+
+/**
+ * Checks the response body against the provider profile and the user's
+ * rules. Returns null when the body does not mark the response as throttled.
+ */
+export function detectBodyThrottle(
+  body: unknown,
+  rules: BodyThrottleRule[],
+  profile: ProviderProfile | null,
+): BodyThrottle | null {
+  if (rules.length === 0 && !profile?.readBody) return null;
+
+  const json = parseJsonBody(body);
+  if (json === undefined) return null;
+
+  const vendor = profile?.readBody?.(json);
+  if (vendor) return vendor;
+
+  for (const rule of rules) {
+    const matched = valuesAtPath(json, rule.matchPath).some(
+      (v) => rule.matchValue === "" || String(v) === rule.matchValue,
+    );
+    if (!matched) continue;
+
+    let waitMs: number | null = null;
+    if (rule.waitPath.trim()) {
+      for (const v of valuesAtPath(json, rule.waitPath)) {
+        waitMs = parseTimeValueToMs(String(v), rule.waitUnit);
+        if (waitMs !== null) break;
+      }
+    }
+    return { waitMs };
+  }
+  return null;
+}
@@ -0,0 +1,94 @@
+import type { Logger } from "n8n-workflow";
+import {
+  MemoryThrottleStore,
+  type RateLimitSettings,
+  type ThrottleStore,
+} from "./throttle-store";
+import { RedisThrottleStore, createRedisClient } from "./redis-store";
+
+export type BucketScope = "none" | "host" | "credential" | "custom";
+
+export type StoreType = "memory" | "redis";
+
+/** The bucket a single request is paced with */
+export interface BucketRef {
+  store: ThrottleStore;
+  key: string;
+  settings: RateLimitSettings;
+}
+
+// Process-wide: every execution of every workflow in this n8n process
+// that names the same bucket key sees the same state.
+const memoryStore = new MemoryThrottleStore();
+
+// One Redis connection per URL, shared by all executions in this process
+const redisStores = new Map<string, RedisThrottleStore>();
+
+/**
+ * Returns the process-wide store for shared buckets. `logger` receives the
+ * connection errors of a newly created Redis client.
+ * Throws when the Redis store is requested but ioredis is not available.
+ */
+export function getThrottleStore(type: StoreType, redisUrl: string, logger: Logger): ThrottleStore {
+  if (type !== "redis") return memoryStore;
+
+  let store = redisStores.get(redisUrl);
+  if (!store) {
+    const client = createRedisClient(redisUrl, logger);
+    if (!client) {
+      throw new Error(
+        "Redis throttle store requires the 'ioredis' package, which was not found in this n8n installation",
+      );
+    }
+    store = new RedisThrottleStore(client);
+    redisStores.set(redisUrl, store);
+  }
+  return store;
+}
+
+/**
+ * Derives the shared bucket key for a request.
+ *
+ * - host:       "host:api.hubapi.com"
+ * - credential: "credential:<type>:<id>", falls back to host for unauthenticated calls
+ * - custom:     "custom:<user key>"
+ *
+ * Returns null when the request should use the execution-local bucket.
+ */
+export function resolveBucketKey(
+  scope: BucketScope,
+  request: {
+    url?: string;
+    credentialsType?: string;
+    credentialId?: string;
+    customKey?: string;
+  },
+): string | null {
+  switch (scope) {
+    case "custom": {
+      const key = request.customKey?.trim();
+      return key ? `custom:${key}` : null;
+    }
+    case "credential":
+      if (request.credentialsType) {
+        return `credential:${request.credentialsType}:${request.credentialId ?? "default"}`;
+      }
+      return resolveBucketKey("host", request);
+    case "host": {
+      const host = hostOf(request.url);
+      return host ? `host:${host}` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** Lowercase host (with port) of a URL, null when it cannot be parsed */
+export function hostOf(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return null;
+  }
+}
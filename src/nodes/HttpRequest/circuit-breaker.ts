@@ -0,0 +1,72 @@
+export interface CircuitSettings {
+  /** Consecutive failures that open the circuit (0 = breaker disabled) */
+  threshold: number;
+  /** How long the circuit stays open before a probe request is let through */
+  cooldownMs: number;
+}
+
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+export type CircuitAdmission =
+  | { allowed: true; probe: boolean }
+  | { allowed: false; retryInMs: number };
+
+/**
+ * Per-host circuit breaker.
+ *
+ * - closed:   requests pass; consecutive failures are counted
+ * - open:     after `threshold` failures every request fails fast until the
+ *             cool-down has elapsed
+ * - halfOpen: a single probe request is let through; success closes the
+ *             circuit, failure opens it again for another cool-down
+ *
+ * A probe that never reports back (e.g. its item failed for another reason)
+ * is replaced by a new one after a further cool-down.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private probeStartedAt = 0;
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  admit(settings: CircuitSettings, now: number = Date.now()): CircuitAdmission {
+    if (this.state === "closed") return { allowed: true, probe: false };
+
+    const since = this.state === "open" ? this.openedAt : this.probeStartedAt;
+    const retryInMs = since + settings.cooldownMs - now;
+    if (retryInMs > 0) return { allowed: false, retryInMs };
+
+    this.state = "halfOpen";
+    this.probeStartedAt = now;
+    return { allowed: true, probe: true };
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.failures = 0;
+  }
+
+  recordFailure(settings: CircuitSettings, now: number = Date.now()): void {
+    this.failures++;
+    if (this.state === "halfOpen" || this.failures >= settings.threshold) {
+      this.state = "open";
+      this.openedAt = now;
+    }
+  }
+}
+
+// Process-wide: a host that is down for one execution is down for all
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(host: string): CircuitBreaker {
+  let breaker = breakers.get(host);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(host, breaker);
+  }
+  return breaker;
+}
@@ -0,0 +1,159 @@
+import type { Logger } from "n8n-workflow";
+import type { WaitSource } from "./throttling";
+
+const METRIC_PREFIX = "n8n_http_throttled_";
+
+interface MetricDefinition {
+  name: string;
+  help: string;
+  labels: readonly string[];
+}
+
+const METRICS = {
+  throttled: {
+    name: "throttle_responses_total",
+    help: "Throttle responses received (status code or body rule)",
+    labels: ["host", "status"],
+  },
+  retries: {
+    name: "retries_total",
+    help: "Requests sent again after a throttle response or connection error",
+    labels: ["host", "status", "source"],
+  },
+  exhausted: {
+    name: "exhausted_total",
+    help: "Requests whose throttle retries were exhausted",
+    labels: ["host", "status"],
+  },
+  waitSeconds: {
+    name: "wait_seconds_total",
+    help: "Time spent waiting before retries",
+    labels: ["host", "status", "source"],
+  },
+} satisfies Record<string, MetricDefinition>;
+
+type MetricName = keyof typeof METRICS;
+
+// Process-wide: metric → label values (JSON array) → counter value
+const values = new Map<MetricName, Map<string, number>>();
+
+let bridged = false;
+
+function inc(metric: MetricName, labelValues: string[], by = 1): void {
+  let series = values.get(metric);
+  if (!series) {
+    series = new Map();
+    values.set(metric, series);
+  }
+  const key = JSON.stringify(labelValues);
+  series.set(key, (series.get(key) ?? 0) + by);
+}
+
+/** Counts a throttle response (status code or body rule) */
+export function countThrottle(host: string, status: string): void {
+  inc("throttled", [host, status]);
+}
+
+/** Counts a retry and the wait before it */
+export function countRetry(host: string, status: string, source: WaitSource, waitMs: number): void {
+  inc("retries", [host, status, source]);
+  inc("waitSeconds", [host, status, source], waitMs / 1000);
+}
+
+export function countExhausted(host: string, status: string): void {
+  inc("exhausted", [host, status]);
+}
+
+function escapeLabel(v: string): string {
+  return v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/** All counters in the Prometheus text exposition format */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const [metric, def] of Object.entries(METRICS) as [MetricName, MetricDefinition][]) {
+    const name = METRIC_PREFIX + def.name;
+    lines.push(`# HELP ${name} ${def.help}`, `# TYPE ${name} counter`);
+    for (const [key, value] of values.get(metric) ?? []) {
+      const labelValues = JSON.parse(key) as string[];
+      const labels = def.labels.map((l, i) => `${l}="${escapeLabel(labelValues[i])}"`).join(",");
+      lines.push(`${name}{${labels}} ${value}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Clears all counters (tests) */
+export function resetMetrics(): void {
+  values.clear();
+}
+
+interface PromCounter {
+  reset(): void;
+  inc(labels: Record<string, string>, value: number): void;
+}
+
+/** The parts of prom-client the bridge uses */
+export interface PromClient {
+  Counter: new (config: {
+    name: string;
+    help: string;
+    labelNames: readonly string[];
+    collect(this: PromCounter): void;
+  }) => unknown;
+  register: { getSingleMetric(name: string): unknown };
+}
+
+/**
+ * n8n's own prom-client, whose registry backs its /metrics endpoint. It is
+ * resolved from n8n's installation (the main module): a copy resolved from
+ * this package would be a separate registry that n8n never reads.
+ */
+function loadN8nPromClient(): PromClient | null {
+  const main = require.main;
+  if (!main) return null;
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const prom = require(require.resolve("prom-client", { paths: [main.path] }));
+    return typeof prom.Counter === "function" && prom.register ? (prom as PromClient) : null;
+  } catch {
+    // prom-client not found in this n8n installation
+    return null;
+  }
+}
+
+/**
+ * Registers the counters with n8n's prom-client registry, so they appear on
+ * n8n's /metrics endpoint (N8N_METRICS=true). The counters read their values
+ * from this module on every scrape. Runs once per process; `promClient`
+ * replaces the lookup of n8n's prom-client. When there is none, counting
+ * continues in memory and a debug message says so.
+ */
+export function bridgeMetrics(logger: Logger, promClient?: PromClient | null): void {
+  if (bridged) return;
+  bridged = true;
+
+  const prom = promClient === undefined ? loadN8nPromClient() : promClient;
+  if (!prom) {
+    logger.debug("[Throttling] prom-client of n8n not found, throttling metrics are not exposed on /metrics");
+    return;
+  }
+
+  for (const [metric, def] of Object.entries(METRICS) as [MetricName, MetricDefinition][]) {
+    const name = METRIC_PREFIX + def.name;
+    // Already registered, e.g. by a second copy of this package
+    if (prom.register.getSingleMetric(name)) continue;
+    new prom.Counter({
+      name,
+      help: def.help,
+      labelNames: def.labels,
+      collect(this: PromCounter) {
+        this.reset();
+        for (const [key, value] of values.get(metric) ?? []) {
+          const labelValues = JSON.parse(key) as string[];
+          this.inc(Object.fromEntries(def.labels.map((l, i) => [l, labelValues[i]])), value);
+        }
+      },
+    });
+  }
+}
@@ -0,0 +1,120 @@
+import type {
+  INodeType,
+  INodeTypeDescription,
+  IExecuteFunctions,
+  INodeExecutionData,
+  IVersionedNodeType,
+} from "n8n-workflow";
+
+export interface BaseNodeRef {
+  description: INodeTypeDescription;
+  execute: (
+    this: IExecuteFunctions,
+  ) => Promise<INodeExecutionData[][] | null>;
+  /** loadOptions / listSearch / … of the node, needed by its parameters */
+  methods?: INodeType["methods"];
+  /** Class name of the loaded implementation, e.g. "HttpRequestV3" */
+  implementation: string;
+  /** Newest node version the implementation serves; its properties are used */
+  version: number;
+  /** Module the implementation was loaded from */
+  modulePath: string;
+}
+
+/** A module of n8n-nodes-base and the node class it exports */
+export interface BaseNodeModule {
+  path: string;
+  exportName: string;
+}
+
+/**
+ * The module of an n8n-nodes-base node in both package layouts, newest
+ * first, e.g. `nodeBaseModules("Hubspot/Hubspot.node", "Hubspot")`.
+ */
+export function nodeBaseModules(relativePath: string, exportName: string): BaseNodeModule[] {
+  return [
+    { path: `n8n-nodes-base/dist/nodes/${relativePath}`, exportName },
+    { path: `n8n-nodes-base/nodes/${relativePath}`, exportName },
+  ];
+}
+
+// The versioned HTTP Request node maps every version to its implementation,
+// so its latest version is the newest implementation n8n ships. Older
+// layouts without a usable versioned node: load V3 directly.
+export const HTTP_REQUEST_MODULES = [
+  ...nodeBaseModules("HttpRequest/HttpRequest.node", "HttpRequest"),
+  ...nodeBaseModules("HttpRequest/V3/HttpRequestV3.node", "HttpRequestV3"),
+];
+
+// V1 and V2 use a different parameter layout the throttling does not support
+export const HTTP_REQUEST_MIN_VERSION = 3;
+
+function latestVersion(description: INodeTypeDescription): number {
+  return Math.max(
+    ...(Array.isArray(description.version) ? description.version : [description.version]),
+  );
+}
+
+function toRef(instance: INodeType, modulePath: string, minVersion: number): BaseNodeRef | null {
+  if (!instance?.description || !instance.execute) return null;
+  const version = latestVersion(instance.description);
+  if (!(version >= minVersion)) return null;
+  return {
+    description: instance.description,
+    execute: instance.execute as BaseNodeRef["execute"],
+    ...(instance.methods && { methods: instance.methods }),
+    implementation: instance.constructor.name,
+    version,
+    modulePath,
+  };
+}
+
+/**
+ * Loads the newest implementation of a node from the first module that
+ * provides one: for a versioned node the newest entry of its `nodeVersions`,
+ * otherwise the node itself. Null when no module loads, or the newest
+ * version is below `minVersion`.
+ */
+export function loadNodeType(modules: BaseNodeModule[], minVersion = 1): BaseNodeRef | null {
+  for (const { path: modulePath, exportName } of modules) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const mod = require(modulePath);
+      const Ctor = mod[exportName] as new () => INodeType | IVersionedNodeType;
+      if (!Ctor) continue;
+
+      const instance = new Ctor();
+      const node =
+        "nodeVersions" in instance && typeof instance.getNodeType === "function"
+          ? instance.getNodeType(Math.max(...Object.keys(instance.nodeVersions).map(Number)))
+          : (instance as INodeType);
+      const ref = toRef(node, modulePath, minVersion);
+      if (ref) return ref;
+    } catch {
+      // Path not found in this n8n installation, try next
+    }
+  }
+
+  return null;
+}
+
+/** One-line summary of the implementation in use, for the log */
+export function describeNodeRef(ref: BaseNodeRef, baseName: string): string {
+  return `Using ${ref.implementation} (${baseName} v${ref.version}) from ${ref.modulePath}`;
+}
+
+/**
+ * The execute context as the loaded implementation sees it: n8n stores our
+ * node as version 1, but versioned implementations branch on
+ * `this.getNode().typeVersion` and must see the version whose parameters the
+ * node shows. Everything else is the context itself.
+ */
+export function withNodeVersion(ctx: IExecuteFunctions, version: number): IExecuteFunctions {
+  return new Proxy(ctx, {
+    get(target, prop) {
+      if (prop === "getNode") return () => ({ ...target.getNode(), typeVersion: version });
+      const value: unknown = Reflect.get(target, prop, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
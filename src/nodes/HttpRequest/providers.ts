@@ -0,0 +1,194 @@
+import { normalizeHeaders, parseRetryAfterToMs } from "./throttling";
+import { valuesAtPath, type BodyThrottle } from "./body-rules";
+
+/**
+ * What a provider's headers say about the current rate-limit situation.
+ * Every field is optional: null/undefined means "no statement", and the
+ * generic header logic in `computeWaitMs` fills the gap.
+ */
+export interface ProviderQuota {
+  /** Explicit wait before retrying, in ms */
+  retryAfterMs?: number | null;
+  /** Remaining requests in the current window */
+  remaining?: number | null;
+  /** Time until the quota is replenished, in ms */
+  resetMs?: number | null;
+  /** Wait to use instead of the node's default when nothing else is known */
+  fallbackWaitMs?: number | null;
+  /** false = the provider says a retry will not help */
+  shouldRetry?: boolean | null;
+}
+
+export interface ProviderProfile {
+  id: string;
+  name: string;
+  /** Hosts the profile is picked for automatically (exact or ".suffix") */
+  hosts: string[];
+  /** Reads the provider's quirks from normalized (lowercase) headers */
+  read(h: Record<string, string>): ProviderQuota;
+  /** Recognizes throttling reported in the (parsed JSON) body, e.g. GraphQL */
+  readBody?(body: unknown): BodyThrottle | null;
+}
+
+function parseSeconds(v: string | undefined): number | null {
+  if (!v) return null;
+  const sec = parseFloat(v);
+  return Number.isFinite(sec) && sec >= 0 ? Math.ceil(sec * 1000) : null;
+}
+
+/** "39/40" → { used: 39, limit: 40 } */
+function parseUsedOfLimit(v: string | undefined): { used: number; limit: number } | null {
+  const m = v?.match(/(\d+)\s*\/\s*(\d+)/);
+  return m ? { used: parseInt(m[1], 10), limit: parseInt(m[2], 10) } : null;
+}
+
+const github: ProviderProfile = {
+  id: "github",
+  name: "GitHub",
+  hosts: ["api.github.com"],
+  read(h) {
+    const limit = parseInt(h["x-ratelimit-limit"] ?? "", 10);
+    const used = parseInt(h["x-ratelimit-used"] ?? "", 10);
+    const remaining = parseInt(h["x-ratelimit-remaining"] ?? "", 10);
+    return {
+      remaining: Number.isFinite(remaining)
+        ? remaining
+        : Number.isFinite(limit) && Number.isFinite(used) ? limit - used : null,
+      // Secondary rate limits: without Retry-After and with quota left,
+      // GitHub asks clients to wait at least one minute.
+      fallbackWaitMs: 60_000,
+    };
+  },
+};
+
+const shopify: ProviderProfile = {
+  id: "shopify",
+  name: "Shopify",
+  hosts: [".myshopify.com"],
+  read(h) {
+    const call = parseUsedOfLimit(h["x-shopify-shop-api-call-limit"]);
+    return {
+      // Shopify sends fractional seconds ("Retry-After: 2.0")
+      retryAfterMs: parseSeconds(h["retry-after"]),
+      remaining: call ? call.limit - call.used : null,
+      // Leaky bucket drains at 2 requests per second (REST Admin API)
+      resetMs: call ? call.used * 500 : null,
+    };
+  },
+  readBody(body) {
+    // GraphQL Admin API answers 200 with errors[].extensions.code "THROTTLED"
+    // and reports the cost budget in extensions.cost.throttleStatus
+    if (!valuesAtPath(body, "errors.extensions.code").includes("THROTTLED")) return null;
+
+    const [requested] = valuesAtPath(body, "extensions.cost.requestedQueryCost");
+    const [available] = valuesAtPath(body, "extensions.cost.throttleStatus.currentlyAvailable");
+    const [restoreRate] = valuesAtPath(body, "extensions.cost.throttleStatus.restoreRate");
+    const missing = Number(requested) - Number(available);
+    return {
+      waitMs: Number(restoreRate) > 0 && Number.isFinite(missing)
+        ? Math.ceil((Math.max(0, missing) / Number(restoreRate)) * 1000)
+        : null,
+    };
+  },
+};
+
+const salesforce: ProviderProfile = {
+  id: "salesforce",
+  name: "Salesforce",
+  hosts: [".salesforce.com", ".force.com"],
+  read(h) {
+    // "api-usage=25/5000" — rolling 24h limit, so there is no reset time
+    const usage = parseUsedOfLimit(h["sforce-limit-info"]?.split("api-usage=")[1]);
+    return { remaining: usage ? usage.limit - usage.used : null };
+  },
+};
+
+const atlassian: ProviderProfile = {
+  id: "atlassian",
+  name: "Atlassian (Jira, Confluence)",
+  hosts: [".atlassian.net", "api.atlassian.com"],
+  read(h) {
+    // Atlassian sends the reset as ISO-8601 timestamp, e.g. "2025-02-19T12:00Z"
+    const reset = h["x-ratelimit-reset"] ? Date.parse(h["x-ratelimit-reset"]) : NaN;
+    return {
+      retryAfterMs: h["beta-retry-after"] ? parseRetryAfterToMs(h["beta-retry-after"]) : null,
+      resetMs: Number.isNaN(reset) ? null : Math.max(0, reset - Date.now()),
+    };
+  },
+};
+
+const zendesk: ProviderProfile = {
+  id: "zendesk",
+  name: "Zendesk",
+  hosts: [".zendesk.com"],
+  read(h) {
+    // Endpoint-specific limits: "zendesk-ratelimit-tickets-index: total=100; remaining=99; resets=10"
+    let quota: ProviderQuota = {};
+    for (const [k, v] of Object.entries(h)) {
+      if (!k.startsWith("zendesk-ratelimit-")) continue;
+      const remaining = parseInt(v.match(/remaining=(\d+)/)?.[1] ?? "", 10);
+      if (!Number.isFinite(remaining)) continue;
+      if (quota.remaining == null || remaining < quota.remaining) {
+        quota = { remaining, resetMs: parseSeconds(v.match(/resets=(\d+)/)?.[1]) };
+      }
+    }
+    return quota;
+  },
+};
+
+const stripe: ProviderProfile = {
+  id: "stripe",
+  name: "Stripe",
+  hosts: ["api.stripe.com"],
+  read(h) {
+    const shouldRetry = h["stripe-should-retry"];
+    return {
+      shouldRetry: shouldRetry === undefined ? null : shouldRetry.toLowerCase() === "true",
+    };
+  },
+};
+
+export const PROVIDER_PROFILES: ProviderProfile[] = [
+  github,
+  shopify,
+  salesforce,
+  atlassian,
+  zendesk,
+  stripe,
+];
+
+/**
+ * Resolves the profile to use for a request.
+ *
+ * @param setting "auto" (match by host), "none" or a profile id
+ * @param url     Request URL, used for auto-detection
+ */
+export function resolveProviderProfile(
+  setting: string,
+  url: string | undefined,
+): ProviderProfile | null {
+  if (setting === "none") return null;
+  if (setting !== "auto") return PROVIDER_PROFILES.find((p) => p.id === setting) ?? null;
+
+  let host: string;
+  try {
+    host = new URL(url ?? "").hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+  return (
+    PROVIDER_PROFILES.find((p) =>
+      p.hosts.some((pattern) =>
+        pattern.startsWith(".") ? host.endsWith(pattern) : host === pattern,
+      ),
+    ) ?? null
+  );
+}
+
+/** false when the provider explicitly says that retrying will not help */
+export function providerAllowsRetry(
+  profile: ProviderProfile | null,
+  rawHeaders: Record<string, unknown>,
+): boolean {
+  return profile?.read(normalizeHeaders(rawHeaders)).shouldRetry !== false;
+}
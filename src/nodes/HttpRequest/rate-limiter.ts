@@ -0,0 +1,68 @@
+/**
+ * Client-side token bucket for proactive request pacing.
+ *
+ * The bucket starts full (`capacity` tokens) and refills continuously at
+ * `refillPerMs` tokens per millisecond. Each request reserves one token.
+ * When the bucket is empty the token count goes negative: every further
+ * reservation queues behind the previous ones, so concurrent callers are
+ * spread out instead of all waking up at the same moment.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    readonly capacity: number,
+    readonly refillPerMs: number,
+    now: number = Date.now(),
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Reserves one token and returns how long (ms) the caller has to wait
+   * before it may send its request. 0 means "send immediately".
+   */
+  reserve(now: number = Date.now()): number {
+    this.refill(now);
+    this.tokens -= 1;
+    if (this.tokens >= 0) return 0;
+    return Math.ceil(-this.tokens / this.refillPerMs);
+  }
+
+  /**
+   * Epoch ms from which the bucket is full again, i.e. no different from a
+   * new one. Stores use it to drop idle buckets.
+   */
+  fullAt(): number {
+    return this.updatedAt + Math.max(0, this.capacity - this.tokens) / this.refillPerMs;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Builds a token bucket for "N requests per interval" pacing.
+ * Returns null when pacing is disabled (requestsPerInterval <= 0).
+ *
+ * @param requestsPerInterval Sustained rate: requests allowed per interval
+ * @param intervalMs          Interval length in milliseconds
+ * @param burstSize           Requests that may be sent back-to-back
+ *                            (<= 0 → same as requestsPerInterval)
+ * @param now                 Start time (a virtual clock in simulations)
+ */
+export function createTokenBucket(
+  requestsPerInterval: number,
+  intervalMs: number,
+  burstSize: number,
+  now: number = Date.now(),
+): TokenBucket | null {
+  if (!(requestsPerInterval > 0) || !(intervalMs > 0)) return null;
+  const capacity = burstSize > 0 ? burstSize : requestsPerInterval;
+  return new TokenBucket(capacity, requestsPerInterval / intervalMs, now);
+}
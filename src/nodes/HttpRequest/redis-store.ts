@@ -0,0 +1,169 @@
+import { randomUUID } from "crypto";
+import type { Logger } from "n8n-workflow";
+import { ThrottleStoreError, type RateLimitSettings, type ThrottleStore } from "./throttle-store";
+
+/** The subset of the ioredis client API used by the store */
+export interface RedisClient {
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+  zrem(key: string, member: string): Promise<unknown>;
+}
+
+const KEY_PREFIX = "n8n-throttle:";
+
+// Current time in ms from the Redis server, so workers with drifting clocks
+// still refill, block and expire against the same clock. replicate_commands() allows
+// writes after TIME on Redis < 5 and is a no-op on later versions.
+const REDIS_NOW = `
+redis.replicate_commands()
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+`;
+
+// Token bucket: refill from elapsed time, take one token, report the wait.
+// Negative token counts queue later callers behind earlier ones.
+const RESERVE_TOKEN_SCRIPT = `${REDIS_NOW}
+local capacity = tonumber(ARGV[1])
+local refillPerMs = tonumber(ARGV[2])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * refillPerMs) - 1
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refillPerMs) * 2 + 60000)
+if tokens >= 0 then return 0 end
+return math.ceil(-tokens / refillPerMs)
+`;
+
+// The block is stored in server time; callers pass and get relative waits
+const BLOCK_UNTIL_SCRIPT = `${REDIS_NOW}
+local waitMs = tonumber(ARGV[1])
+local blockedUntil = now + waitMs
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+if blockedUntil > current then
+  redis.call('SET', KEYS[1], tostring(blockedUntil), 'PX', waitMs)
+end
+return 1
+`;
+
+const BLOCKED_FOR_SCRIPT = `${REDIS_NOW}
+local blockedUntil = tonumber(redis.call('GET', KEYS[1]) or '0')
+return math.max(0, blockedUntil - now)
+`;
+
+const ACQUIRE_LEASE_SCRIPT = `${REDIS_NOW}
+local limit = tonumber(ARGV[1])
+local ttl = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+if redis.call('ZCARD', KEYS[1]) >= limit then return 0 end
+redis.call('ZADD', KEYS[1], now + ttl, ARGV[3])
+redis.call('PEXPIRE', KEYS[1], ttl)
+return 1
+`;
+
+/**
+ * Redis-backed store for queue-mode n8n: every worker connected to the same
+ * Redis shares token counts, blocked-until timestamps and concurrency leases.
+ * All read-modify-write steps run as Lua scripts, so they are atomic. Times
+ * are kept in the Redis server's clock; blocked-until timestamps are
+ * translated to and from the worker's clock as remaining milliseconds.
+ * Client errors are rethrown as `ThrottleStoreError`.
+ */
+export class RedisThrottleStore implements ThrottleStore {
+  constructor(private readonly client: RedisClient) {}
+
+  async reserveToken(key: string, settings: RateLimitSettings): Promise<number> {
+    if (!(settings.requestsPerInterval > 0) || !(settings.intervalMs > 0)) return 0;
+    const capacity = settings.burstSize > 0 ? settings.burstSize : settings.requestsPerInterval;
+    const wait = await this.call(() => this.client.eval(
+      RESERVE_TOKEN_SCRIPT, 1, `${KEY_PREFIX}${key}:tokens`,
+      capacity, settings.requestsPerInterval / settings.intervalMs,
+    ));
+    return Number(wait) || 0;
+  }
+
+  async getBlockedUntil(key: string): Promise<number> {
+    const remaining = Number(await this.call(() => this.client.eval(
+      BLOCKED_FOR_SCRIPT, 1, `${KEY_PREFIX}${key}:blocked`,
+    ))) || 0;
+    return remaining > 0 ? Date.now() + remaining : 0;
+  }
+
+  async blockUntil(key: string, until: number): Promise<void> {
+    const waitMs = Math.ceil(until - Date.now());
+    if (waitMs <= 0) return;
+    await this.call(() => this.client.eval(
+      BLOCK_UNTIL_SCRIPT, 1, `${KEY_PREFIX}${key}:blocked`, waitMs,
+    ));
+  }
+
+  async acquireLease(key: string, limit: number, ttlMs: number): Promise<string | null> {
+    const id = randomUUID();
+    const acquired = await this.call(() => this.client.eval(
+      ACQUIRE_LEASE_SCRIPT, 1, `${KEY_PREFIX}${key}:leases`, limit, ttlMs, id,
+    ));
+    return Number(acquired) === 1 ? id : null;
+  }
+
+  async releaseLease(key: string, leaseId: string): Promise<void> {
+    await this.call(() => this.client.zrem(`${KEY_PREFIX}${key}:leases`, leaseId));
+  }
+
+  private async call<T>(command: () => Promise<T>): Promise<T> {
+    try {
+      return await command();
+    } catch (err) {
+      throw new ThrottleStoreError(`Redis throttle store failed: ${(err as Error).message}`);
+    }
+  }
+}
+
+interface IoredisClient extends RedisClient {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * Loads ioredis, preferring the copy of n8n's own installation (n8n ships it
+ * for queue mode), so no dependency is needed; falls back to one installed
+ * next to this package.
+ */
+function loadIoredis(): unknown {
+  const searchPaths = [require.main?.path, __dirname].filter((p): p is string => !!p);
+  for (const searchPath of searchPaths) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      return require(require.resolve("ioredis", { paths: [searchPath] }));
+    } catch {
+      // Not found from this path, try next
+    }
+  }
+  return null;
+}
+
+/**
+ * Creates an ioredis client, preferably from n8n's own installation.
+ * Connection errors are logged once per outage through `logger` instead of
+ * ioredis' "Unhandled error event" on every reconnect attempt.
+ * Returns null when ioredis is not available.
+ */
+export function createRedisClient(url: string, logger: Logger): RedisClient | null {
+  const mod = loadIoredis() as { default?: unknown; Redis?: unknown } | null;
+  const Redis = (mod?.default ?? mod?.Redis ?? mod) as new (
+    url: string,
+    options: Record<string, unknown>,
+  ) => IoredisClient;
+  if (typeof Redis !== "function") return null;
+
+  const client = new Redis(url, { maxRetriesPerRequest: 1, enableOfflineQueue: true });
+  let failing = false;
+  client.on("error", (err: Error) => {
+    if (failing) return;
+    failing = true;
+    logger.warn(`[Throttling] Redis throttle store unavailable: ${err.message}`);
+  });
+  client.on("ready", () => {
+    if (!failing) return;
+    failing = false;
+    logger.info("[Throttling] Redis throttle store reconnected");
+  });
+  return client;
+}
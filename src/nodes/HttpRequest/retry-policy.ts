@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+import type { IHttpRequestOptions } from "n8n-workflow";
+
+/** Error codes (or message fragments) treated as transient connection failures */
+export const DEFAULT_CONNECTION_ERROR_CODES = [
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "socket hang up",
+];
+
+// RFC 9110 §9.2.2: repeating these requests has the same effect as sending them once
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "TRACE", "PUT", "DELETE"]);
+
+/**
+ * Which throttled requests may be sent again:
+ *   safe → idempotent methods always; POST/PATCH only on 429, a body throttle
+ *          marker or when the request carries an idempotency key
+ *   all  → every method (the server may then process a POST twice)
+ */
+export type MethodRetryPolicy = "safe" | "all";
+
+export const DEFAULT_IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+// Header names APIs commonly use for idempotency keys
+const IDEMPOTENCY_KEY_HEADERS = ["idempotency-key", "x-idempotency-key"];
+
+/** Parses a comma-separated code list from the node settings */
+export function parseErrorCodes(list: string): Set<string> {
+  return new Set(
+    list
+      .split(",")
+      .map((c) => c.trim())
+      .filter((c) => c.length > 0),
+  );
+}
+
+export function isIdempotentMethod(method: string | undefined): boolean {
+  return IDEMPOTENT_METHODS.has((method ?? "GET").toUpperCase());
+}
+
+function findHeader(
+  headers: IHttpRequestOptions["headers"],
+  names: string[],
+): string | undefined {
+  const wanted = names.map((n) => n.toLowerCase());
+  return Object.keys(headers ?? {}).find((k) => wanted.includes(k.toLowerCase()));
+}
+
+/** True when the request carries an idempotency key, so repeating it is safe */
+export function hasIdempotencyKey(
+  options: IHttpRequestOptions,
+  headerName: string = DEFAULT_IDEMPOTENCY_KEY_HEADER,
+): boolean {
+  return findHeader(options.headers, [headerName, ...IDEMPOTENCY_KEY_HEADERS]) !== undefined;
+}
+
+/** True when sending the request a second time cannot cause a duplicate effect */
+export function mayRepeatRequest(options: IHttpRequestOptions, keyHeader?: string): boolean {
+  return isIdempotentMethod(options.method) || hasIdempotencyKey(options, keyHeader);
+}
+
+/**
+ * Decides whether a throttled response may be retried under the policy.
+ * A 429 or a body throttle marker means the server rejected the request
+ * without processing it, so those are retried for every method.
+ */
+export function mayRetryThrottled(
+  policy: MethodRetryPolicy,
+  options: IHttpRequestOptions,
+  statusCode: number,
+  throttledByBody: boolean,
+  keyHeader?: string,
+): boolean {
+  if (policy === "all" || statusCode === 429 || throttledByBody) return true;
+  return mayRepeatRequest(options, keyHeader);
+}
+
+/**
+ * Adds a generated idempotency key to non-idempotent requests that do not
+ * carry one yet. Called once per request, so every retry of it reuses the
+ * same key.
+ */
+export function withIdempotencyKey(
+  options: IHttpRequestOptions,
+  headerName: string = DEFAULT_IDEMPOTENCY_KEY_HEADER,
+): IHttpRequestOptions {
+  if (isIdempotentMethod(options.method) || hasIdempotencyKey(options, headerName)) {
+    return options;
+  }
+  return { ...options, headers: { ...options.headers, [headerName]: randomUUID() } };
+}
+
+/**
+ * Returns the configured code a request error matches, or null.
+ *
+ * n8n and axios wrap the socket error (NodeApiError → AxiosError → Error),
+ * so the `cause` chain is searched for a matching `code`. Entries that are
+ * not error codes (e.g. "socket hang up") are matched against the messages.
+ */
+export function connectionErrorCode(err: unknown, codes: Set<string>): string | null {
+  let current: unknown = err;
+  for (let depth = 0; depth < 5 && current && typeof current === "object"; depth++) {
+    const e = current as { code?: unknown; message?: unknown; cause?: unknown };
+    if (typeof e.code === "string" && codes.has(e.code)) return e.code;
+
+    const message = typeof e.message === "string" ? e.message.toLowerCase() : "";
+    for (const code of codes) {
+      if (message.includes(code.toLowerCase())) return code;
+    }
+    current = e.cause;
+  }
+  return null;
+}
@@ -0,0 +1,259 @@
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  IHttpRequestOptions,
+  INodeExecutionData,
+} from "n8n-workflow";
+import { jitterWaitMs, computeSlowdownMs, type WaitSource } from "./throttling";
+import { detectBodyThrottle } from "./body-rules";
+import { mayRetryThrottled } from "./retry-policy";
+import { createTokenBucket, type TokenBucket } from "./rate-limiter";
+import { resolveProviderProfile, providerAllowsRetry } from "./providers";
+import { computeThrottleWaitMs, spendWaitBudget, type ThrottleConfig } from "./throttle-wrapper";
+import { configForUrl } from "./url-rules";
+
+/** One scripted response of a simulation */
+export interface MockResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: unknown;
+  /** Virtual time the response takes to arrive */
+  latencyMs: number;
+}
+
+/**
+ * What happened at a point of the timeline:
+ *   paced          → waited for a token of Requests per Interval
+ *   blocked        → waited for a wait or slowdown set by an earlier response
+ *   retry          → throttle response, waiting before the next attempt
+ *   success        → response passed on (status < 400)
+ *   failed         → response passed on as an error (status >= 400, not throttled)
+ *   notRetried     → throttle response the retry policy does not repeat
+ *   exhausted      → throttle retries ran out
+ *   budgetExceeded → the next wait would exceed a wait budget
+ *   deferred       → the next wait is longer than Defer Waits Longer Than
+ *   slowdown       → remaining quota below the threshold, next request delayed
+ */
+export type SimulationAction =
+  | "paced"
+  | "blocked"
+  | "retry"
+  | "success"
+  | "failed"
+  | "notRetried"
+  | "exhausted"
+  | "budgetExceeded"
+  | "deferred"
+  | "slowdown";
+
+export interface TimelineEntry {
+  /** Virtual time since the simulation started, in ms */
+  atMs: number;
+  action: SimulationAction;
+  /** Request number for this item, starting at 1 */
+  attempt: number;
+  status?: number;
+  waitMs?: number;
+  source?: WaitSource;
+  message?: string;
+}
+
+// Served once the script has run out
+const DEFAULT_RESPONSE: MockResponse = { status: 200, headers: {}, latencyMs: 0 };
+
+/**
+ * Parses the scripted responses from the node parameter: a JSON array of
+ * `{ status, headers?, body?, latencyMs? }`. Throws with a readable message
+ * on invalid input.
+ */
+export function parseMockResponses(value: unknown): MockResponse[] {
+  let parsed = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value || "[]");
+    } catch (err) {
+      throw new Error(`Simulation responses are not valid JSON: ${(err as Error).message}`);
+    }
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("Simulation responses must be a JSON array of { status, headers, body }");
+  }
+
+  return parsed.map((entry, i) => {
+    const r = entry as Partial<MockResponse> | null;
+    if (!r || typeof r.status !== "number") {
+      throw new Error(`Simulation response ${i + 1} needs a numeric "status"`);
+    }
+    return {
+      status: r.status,
+      headers: Object.fromEntries(
+        Object.entries(r.headers ?? {}).map(([k, v]) => [k, String(v)]),
+      ),
+      body: r.body,
+      latencyMs: typeof r.latencyMs === "number" ? r.latencyMs : 0,
+    };
+  });
+}
+
+/**
+ * Replays scripted responses through the real wait and retry logic on a
+ * virtual clock: no requests are sent and nothing sleeps. Items consume the
+ * script in order, one response per attempt, and share the virtual clock,
+ * the wait budgets and the proactive rate limiter like a real execution.
+ *
+ * Headers with absolute timestamps (epoch resets, HTTP dates) are evaluated
+ * against the real clock, which does not advance — prefer relative values.
+ */
+export class ThrottleSimulation {
+  private now = 0;
+  private blockedUntil = 0;
+  private next = 0;
+  private readonly pacing: TokenBucket | null;
+  private readonly config: ThrottleConfig;
+
+  constructor(
+    private readonly ctx: IExecuteFunctions,
+    config: ThrottleConfig,
+    private readonly responses: MockResponse[],
+  ) {
+    // Budgets are booked on a copy, so simulating never spends real budget
+    this.config = { ...config, waitBudget: { executionMs: 0, itemMs: new Map() } };
+    const { requestsPerInterval, intervalMs, burstSize } = config.rateLimit;
+    this.pacing = createTokenBucket(requestsPerInterval, intervalMs, burstSize, 0);
+  }
+
+  runItem(itemIndex: number, options: IHttpRequestOptions): IDataObject {
+    const config = configForUrl(this.config, options.url);
+    const profile = resolveProviderProfile(config.provider, options.url);
+    const timeline: TimelineEntry[] = [];
+    let totalWaitMs = 0;
+    let previousWait: number | undefined;
+    let retry = 0;
+
+    const advance = (action: SimulationAction, attempt: number, waitMs: number): void => {
+      timeline.push({ atMs: Math.round(this.now), action, attempt, waitMs: Math.round(waitMs) });
+      this.now += waitMs;
+      totalWaitMs += waitMs;
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      if (this.deferrable(this.blockedUntil - this.now)) {
+        timeline.push({
+          atMs: Math.round(this.now), action: "deferred", attempt,
+          waitMs: Math.round(this.blockedUntil - this.now),
+        });
+        return this.result("deferred", attempt - 1, totalWaitMs, timeline);
+      }
+      if (this.blockedUntil > this.now) advance("blocked", attempt, this.blockedUntil - this.now);
+      const paceMs = this.pacing ? this.pacing.reserve(this.now) : 0;
+      if (paceMs > 0) advance("paced", attempt, paceMs);
+
+      const response = this.responses[this.next++] ?? DEFAULT_RESPONSE;
+      this.now += response.latencyMs;
+      const entry = { atMs: Math.round(this.now), attempt, status: response.status };
+
+      const bodyThrottle = detectBodyThrottle(response.body, config.bodyRules, profile);
+      const throttled =
+        bodyThrottle !== null ||
+        (config.codes.has(String(response.status)) && providerAllowsRetry(profile, response.headers));
+
+      if (throttled) {
+        if (!mayRetryThrottled(
+          config.methodRetryPolicy, options, response.status, bodyThrottle !== null,
+          config.idempotencyKeyHeader,
+        )) {
+          timeline.push({ ...entry, action: "notRetried" });
+          return this.result("notRetried", attempt, totalWaitMs, timeline);
+        }
+        if (retry >= config.maxRetries) {
+          timeline.push({ ...entry, action: "exhausted" });
+          return this.result("exhausted", attempt, totalWaitMs, timeline);
+        }
+
+        const { waitMs, source } = computeThrottleWaitMs(
+          config, response.headers, profile, bodyThrottle, retry, previousWait,
+        );
+        const wait = Math.min(
+          jitterWaitMs(waitMs, source, config.jitterPercent, config.backoff),
+          config.maxWaitMs,
+        );
+        if (this.deferrable(wait)) {
+          timeline.push({ ...entry, action: "deferred", waitMs: Math.round(wait), source });
+          this.blockedUntil = Math.max(this.blockedUntil, this.now + wait);
+          return this.result("deferred", attempt, totalWaitMs, timeline);
+        }
+        try {
+          spendWaitBudget(this.ctx, config, itemIndex, wait);
+        } catch (err) {
+          timeline.push({ ...entry, action: "budgetExceeded", message: (err as Error).message });
+          return this.result("budgetExceeded", attempt, totalWaitMs, timeline);
+        }
+        timeline.push({ ...entry, action: "retry", waitMs: Math.round(wait), source });
+        previousWait = wait;
+        this.now += wait;
+        totalWaitMs += wait;
+        // The wait blocks the (virtual) bucket for every following request
+        this.blockedUntil = Math.max(this.blockedUntil, this.now);
+        retry++;
+        continue;
+      }
+
+      const outcome = response.status >= 400 ? "failed" : "success";
+      timeline.push({ ...entry, action: outcome });
+
+      const slowdown = computeSlowdownMs(response.headers, config.slowdownThreshold, {
+        profile,
+        headerMappings: config.headerMappings,
+        maxWaitMs: config.maxWaitMs,
+      });
+      if (slowdown > 0) {
+        timeline.push({ ...entry, action: "slowdown", waitMs: Math.round(slowdown) });
+        this.blockedUntil = Math.max(this.blockedUntil, this.now + slowdown);
+      }
+      return this.result(outcome, attempt, totalWaitMs, timeline);
+    }
+  }
+
+  private deferrable(waitMs: number): boolean {
+    return this.config.deferWaitsAboveMs > 0 && waitMs > this.config.deferWaitsAboveMs;
+  }
+
+  private result(
+    outcome: SimulationAction,
+    attempts: number,
+    totalWaitMs: number,
+    timeline: TimelineEntry[],
+  ): IDataObject {
+    return {
+      outcome,
+      attempts,
+      totalWaitMs: Math.round(totalWaitMs),
+      finishedAtMs: Math.round(this.now),
+      timeline: timeline as unknown as IDataObject[],
+    };
+  }
+}
+
+/** Simulation output: one item per input item with its timeline */
+export function simulateExecute(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  responses: MockResponse[],
+): INodeExecutionData[][] {
+  const simulation = new ThrottleSimulation(ctx, config, responses);
+  const items = ctx.getInputData();
+  const returnData: INodeExecutionData[] = [];
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    const options: IHttpRequestOptions = {
+      method: ctx.getNodeParameter("method", itemIndex, "GET") as IHttpRequestOptions["method"],
+      url: ctx.getNodeParameter("url", itemIndex, "") as string,
+    };
+    returnData.push({
+      json: { simulation: simulation.runItem(itemIndex, options) },
+      pairedItem: { item: itemIndex },
+    });
+  }
+  // Keep the output count of the node description
+  return config.throttledOutput ? [returnData, []] : [returnData];
+}
@@ -0,0 +1,205 @@
+import type { IExecuteFunctions } from "n8n-workflow";
+import { NodeOperationError } from "n8n-workflow";
+
+import type { ThrottleConfig } from "./throttle-wrapper";
+import { MAX_THROTTLE_WAIT_MS, type BackoffStrategy, type HeaderMapping } from "./throttling";
+import type { BodyThrottleRule } from "./body-rules";
+import {
+  DEFAULT_CONNECTION_ERROR_CODES,
+  DEFAULT_IDEMPOTENCY_KEY_HEADER,
+  parseErrorCodes,
+  type MethodRetryPolicy,
+} from "./retry-policy";
+import { getThrottleStore, type BucketScope, type StoreType } from "./bucket-registry";
+import { MemoryThrottleStore, type ThrottleStore } from "./throttle-store";
+import { parseMockResponses, type MockResponse } from "./simulation";
+import { parseUrlRules, type UrlRule, type UrlRuleParams } from "./url-rules";
+
+interface ThrottlingParams {
+  throttleCodes?: string[];
+  defaultWaitMs?: number;
+  jitterPercent?: number;
+  maxThrottleTries?: number;
+  requestsPerInterval?: number;
+  intervalMs?: number;
+  burstSize?: number;
+  slowdownThreshold?: number;
+  paginationPacing?: boolean;
+  urlRules?: { rules?: UrlRuleParams[] };
+  bucketScope?: BucketScope;
+  bucketKey?: string;
+  throttleStore?: "default" | StoreType;
+  redisUrl?: string;
+  provider?: string;
+  customHeaders?: { mappings?: Partial<HeaderMapping>[] };
+  bodyRules?: { rules?: Partial<BodyThrottleRule>[] };
+  backoffStrategy?: BackoffStrategy;
+  backoffMultiplier?: number;
+  backoffMaxMs?: number;
+  maxWaitMs?: number;
+  maxItemWaitMs?: number;
+  maxExecutionWaitMs?: number;
+  retryConnectionErrors?: boolean;
+  connectionErrorCodes?: string;
+  maxConnectionRetries?: number;
+  connectionRetryAllMethods?: boolean;
+  methodRetryPolicy?: MethodRetryPolicy;
+  idempotencyKey?: boolean;
+  idempotencyKeyHeader?: string;
+  maxConcurrent?: number;
+  circuitBreakerThreshold?: number;
+  circuitBreakerCooldownMs?: number;
+  includeMetadata?: boolean;
+  throttledOutput?: boolean;
+  deferWaitsAboveMs?: number;
+  eventLogFile?: string;
+  simulate?: boolean;
+  simulationResponses?: string | unknown[];
+}
+
+/**
+ * Reads an environment variable through n8n's expression engine instead of
+ * `process.env`, so N8N_BLOCK_ENV_ACCESS_IN_NODE is honoured. Returns "" when
+ * the variable is unset or env access is blocked.
+ */
+function readEnv(ctx: IExecuteFunctions, name: string): string {
+  try {
+    const value = ctx.evaluateExpression(`{{ $env.${name} }}`, 0);
+    return typeof value === "string" ? value.trim() : "";
+  } catch {
+    return "";
+  }
+}
+
+function resolveSharedStore(
+  ctx: IExecuteFunctions,
+  throttlingParams: ThrottlingParams,
+): ThrottleStore {
+  let storeType = throttlingParams.throttleStore ?? "default";
+  if (storeType === "default") {
+    storeType = readEnv(ctx, "N8N_THROTTLE_STORE") === "redis" ? "redis" : "memory";
+  }
+  if (storeType !== "redis") return getThrottleStore("memory", "", ctx.logger);
+
+  const redisUrl =
+    throttlingParams.redisUrl?.trim() ||
+    readEnv(ctx, "N8N_THROTTLE_REDIS_URL") ||
+    "redis://localhost:6379";
+  try {
+    return getThrottleStore("redis", redisUrl, ctx.logger);
+  } catch (err) {
+    throw new NodeOperationError(ctx.getNode(), (err as Error).message);
+  }
+}
+
+function readSimulationResponses(ctx: IExecuteFunctions, value: unknown): MockResponse[] {
+  try {
+    return parseMockResponses(value);
+  } catch (err) {
+    throw new NodeOperationError(ctx.getNode(), (err as Error).message);
+  }
+}
+
+function readUrlRules(ctx: IExecuteFunctions, rules: UrlRuleParams[]): UrlRule[] {
+  try {
+    return parseUrlRules(rules);
+  } catch (err) {
+    throw new NodeOperationError(ctx.getNode(), (err as Error).message);
+  }
+}
+
+// Deferred items leave through the second output: without it the setting would do nothing
+function readDeferWaitsAboveMs(ctx: IExecuteFunctions, throttlingParams: ThrottlingParams): number {
+  const deferWaitsAboveMs = throttlingParams.deferWaitsAboveMs ?? 0;
+  if (deferWaitsAboveMs > 0 && !throttlingParams.throttledOutput) {
+    throw new NodeOperationError(ctx.getNode(),
+      "Defer Waits Longer Than (ms) needs the Throttled / Failed Output: enable it, or set the threshold to 0",
+    );
+  }
+  return deferWaitsAboveMs;
+}
+
+/**
+ * Reads the node's throttling settings. Each call starts with fresh
+ * execution state (local store, wait budget, metadata); callers reading the
+ * settings per item share that state with the execution-wide config.
+ */
+export function readThrottleConfig(ctx: IExecuteFunctions, itemIndex = 0): ThrottleConfig {
+  // Defaults to the first item — on the V3 path throttling config applies to the entire execution
+  const throttlingParams = ctx.getNodeParameter("throttling", itemIndex, {}) as ThrottlingParams;
+
+  const rateLimit = {
+    requestsPerInterval: throttlingParams.requestsPerInterval ?? 0,
+    intervalMs: throttlingParams.intervalMs ?? 1_000,
+    burstSize: throttlingParams.burstSize ?? 0,
+  };
+  const bucketScope = throttlingParams.bucketScope ?? "none";
+  const localStore = new MemoryThrottleStore();
+
+  return {
+    codes: new Set((throttlingParams.throttleCodes ?? ["429"]).map(String)),
+    defaultWaitMs: throttlingParams.defaultWaitMs ?? 5_000,
+    jitterPercent: throttlingParams.jitterPercent ?? 25,
+    maxRetries: Math.max(1, throttlingParams.maxThrottleTries ?? 5),
+    rateLimit,
+    urlRules: readUrlRules(ctx, throttlingParams.urlRules?.rules ?? []),
+    slowdownThreshold: throttlingParams.slowdownThreshold ?? 0,
+    paginationPacing: throttlingParams.paginationPacing ?? false,
+    bucketScope,
+    bucketKey: throttlingParams.bucketKey ?? "",
+    // No shared bucket → no need to resolve (or connect to) a shared store
+    sharedStore: bucketScope === "none" ? localStore : resolveSharedStore(ctx, throttlingParams),
+    localStore,
+    provider: throttlingParams.provider ?? "auto",
+    headerMappings: (throttlingParams.customHeaders?.mappings ?? [])
+      .filter((m) => m.header?.trim())
+      .map((m) => ({
+        header: m.header!.trim(),
+        role: m.role ?? "retryAfter",
+        unit: m.unit ?? "seconds",
+      })),
+    bodyRules: (throttlingParams.bodyRules?.rules ?? [])
+      .filter((r) => r.matchPath?.trim())
+      .map((r) => ({
+        matchPath: r.matchPath!.trim(),
+        matchValue: r.matchValue ?? "",
+        waitPath: r.waitPath ?? "",
+        waitUnit: r.waitUnit ?? "seconds",
+      })),
+    backoff: {
+      strategy: throttlingParams.backoffStrategy ?? "fixed",
+      multiplier: throttlingParams.backoffMultiplier ?? 2,
+      maxMs: throttlingParams.backoffMaxMs ?? 60_000,
+    },
+    maxWaitMs: throttlingParams.maxWaitMs || MAX_THROTTLE_WAIT_MS,
+    maxItemWaitMs: throttlingParams.maxItemWaitMs ?? 0,
+    maxExecutionWaitMs: throttlingParams.maxExecutionWaitMs ?? 0,
+    waitBudget: { executionMs: 0, itemMs: new Map() },
+    retryConnectionErrors: throttlingParams.retryConnectionErrors ?? false,
+    connectionErrorCodes: parseErrorCodes(
+      throttlingParams.connectionErrorCodes ?? DEFAULT_CONNECTION_ERROR_CODES.join(", "),
+    ),
+    maxConnectionRetries: throttlingParams.maxConnectionRetries ?? 3,
+    connectionRetryAllMethods: throttlingParams.connectionRetryAllMethods ?? false,
+    methodRetryPolicy: throttlingParams.methodRetryPolicy ?? "safe",
+    idempotencyKey: throttlingParams.idempotencyKey ?? false,
+    idempotencyKeyHeader:
+      throttlingParams.idempotencyKeyHeader?.trim() || DEFAULT_IDEMPOTENCY_KEY_HEADER,
+    maxConcurrent: throttlingParams.maxConcurrent ?? 0,
+    circuitBreaker: {
+      threshold: throttlingParams.circuitBreakerThreshold ?? 0,
+      cooldownMs: throttlingParams.circuitBreakerCooldownMs ?? 60_000,
+    },
+    includeMetadata: throttlingParams.includeMetadata ?? false,
+    metadata: new Map(),
+    throttledOutput: throttlingParams.throttledOutput ?? false,
+    deferWaitsAboveMs: readDeferWaitsAboveMs(ctx, throttlingParams),
+    exhausted: new Map(),
+    passThrottledResponses: false,
+    eventLogFile: throttlingParams.eventLogFile?.trim() ?? "",
+    simulate: throttlingParams.simulate ?? false,
+    simulationResponses: throttlingParams.simulate
+      ? readSimulationResponses(ctx, throttlingParams.simulationResponses)
+      : [],
+  };
+}
@@ -0,0 +1,110 @@
+import { constants } from "fs";
+import type { IExecuteFunctions } from "n8n-workflow";
+import type { WaitSource } from "./throttling";
+
+/**
+ * throttle-start → first throttle response of a request
+ * wait           → a wait before the next attempt (throttle or connection error)
+ * retry          → the request is sent again after a wait
+ * exhausted      → throttle retries ran out
+ * deferred       → a wait was too long; the item went to the second output instead
+ * circuit-open   → the host's circuit breaker opened
+ */
+export type ThrottleEventType =
+  | "throttle-start"
+  | "wait"
+  | "retry"
+  | "exhausted"
+  | "deferred"
+  | "circuit-open";
+
+/** What the emitting code knows about the event */
+export interface ThrottleEventFields {
+  type: ThrottleEventType;
+  itemIndex: number;
+  host: string;
+  /** Status of the response that caused the event (absent for connection errors) */
+  status?: number;
+  /** Retry number, starting at 1 */
+  attempt?: number;
+  waitMs?: number;
+  source?: WaitSource;
+}
+
+/** A structured throttling event, as passed to listeners and written to the event log */
+export interface ThrottleEvent extends ThrottleEventFields {
+  /** ISO timestamp */
+  time: string;
+  workflowId: string | undefined;
+  workflowName: string | undefined;
+  executionId: string;
+  node: string;
+}
+
+export type ThrottleEventListener = (event: ThrottleEvent) => void;
+
+// Process-wide, so other packages in the same n8n process can subscribe
+const listeners = new Set<ThrottleEventListener>();
+
+// Numeric form of the fs "a" flag, the type n8n-workflow declares
+const APPEND_FLAG = constants.O_WRONLY | constants.O_CREAT | constants.O_APPEND;
+
+// Appends are chained so lines keep their order
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/** Subscribes to all throttling events of this n8n process; returns the unsubscribe function */
+export function onThrottleEvent(listener: ThrottleEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Emits an event to all listeners and, when `logFile` is set, appends it as
+ * a JSON line to that file. The file is written through n8n's file helpers,
+ * so N8N_RESTRICT_FILE_ACCESS_TO applies. Listener and write errors are
+ * logged, never thrown: auditing must not fail the request.
+ */
+export function emitThrottleEvent(
+  ctx: IExecuteFunctions,
+  logFile: string,
+  fields: ThrottleEventFields,
+): void {
+  if (listeners.size === 0 && !logFile) return;
+
+  const workflow = ctx.getWorkflow();
+  const event: ThrottleEvent = {
+    time: new Date().toISOString(),
+    workflowId: workflow.id,
+    workflowName: workflow.name,
+    executionId: ctx.getExecutionId(),
+    node: ctx.getNode().name,
+    ...fields,
+  };
+
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      ctx.logger.warn(`[Throttling] Event listener failed: ${(err as Error).message}`);
+    }
+  }
+
+  if (logFile) {
+    const line = JSON.stringify(event) + "\n";
+    pendingWrite = pendingWrite
+      .then(async () => {
+        const path = await ctx.helpers.resolvePath(logFile);
+        await ctx.helpers.writeContentToFile(path, line, APPEND_FLAG);
+      })
+      .catch((err) => {
+        ctx.logger.warn(`[Throttling] Could not write event log ${logFile}: ${(err as Error).message}`);
+      });
+  }
+}
+
+/** Resolves once all queued event log lines are written */
+export function flushThrottleEvents(): Promise<void> {
+  return pendingWrite;
+}
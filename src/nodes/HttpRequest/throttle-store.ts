@@ -0,0 +1,139 @@
+import { randomUUID } from "crypto";
+import { createTokenBucket, type TokenBucket } from "./rate-limiter";
+
+export interface RateLimitSettings {
+  requestsPerInterval: number;
+  intervalMs: number;
+  burstSize: number;
+}
+
+/**
+ * Failure of the store backend itself (e.g. Redis unreachable). It says
+ * nothing about the target host, so it is never retried as a connection
+ * error and never trips the host's circuit breaker.
+ */
+export class ThrottleStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ThrottleStoreError";
+  }
+}
+
+/**
+ * Backend holding the rate-limit state of throttle buckets.
+ *
+ * All methods are keyed by bucket key (see `resolveBucketKey`). The in-memory
+ * store only shares state within one n8n process; the Redis store shares it
+ * across all workers of a queue-mode setup. Backend failures are thrown as
+ * `ThrottleStoreError`.
+ */
+export interface ThrottleStore {
+  /**
+   * Reserves one token of the bucket's "requests per interval" budget and
+   * returns how long (ms) the caller has to wait before sending.
+   */
+  reserveToken(key: string, settings: RateLimitSettings): Promise<number>;
+  /** Epoch ms before which no request may be sent (0 = not blocked) */
+  getBlockedUntil(key: string): Promise<number>;
+  /** Blocks the bucket until `until` (epoch ms); never shortens an existing block */
+  blockUntil(key: string, until: number): Promise<void>;
+  /**
+   * Tries to take one of `limit` concurrency leases. Returns the lease id, or
+   * null when all leases are taken. Leases expire after `ttlMs` so a crashed
+   * worker cannot hold them forever.
+   */
+  acquireLease(key: string, limit: number, ttlMs: number): Promise<string | null>;
+  releaseLease(key: string, leaseId: string): Promise<void>;
+}
+
+// How often the memory store looks for idle entries to drop
+const SWEEP_INTERVAL_MS = 60_000;
+
+interface MemoryEntry {
+  blockedUntil: number;
+  rateLimiter: TokenBucket | null;
+  settingsKey: string;
+  /** lease id → expiry (epoch ms) */
+  leases: Map<string, number>;
+}
+
+/**
+ * Process-local store. When a node uses different pacing settings than the
+ * bucket was created with, the token bucket is replaced (latest settings win)
+ * but the learned blocked-until time is kept.
+ *
+ * Entries are dropped once idle — not blocked, no live leases and a full
+ * token bucket — so keys from per-host or per-URL rules do not accumulate in
+ * a long-running process. Idle entries are swept at most once a minute.
+ */
+export class MemoryThrottleStore implements ThrottleStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+  private lastSweep = Date.now();
+
+  async reserveToken(key: string, settings: RateLimitSettings): Promise<number> {
+    const entry = this.entry(key);
+    const settingsKey = `${settings.requestsPerInterval}/${settings.intervalMs}/${settings.burstSize}`;
+    if (entry.settingsKey !== settingsKey) {
+      entry.rateLimiter = createTokenBucket(
+        settings.requestsPerInterval,
+        settings.intervalMs,
+        settings.burstSize,
+      );
+      entry.settingsKey = settingsKey;
+    }
+    return entry.rateLimiter ? entry.rateLimiter.reserve() : 0;
+  }
+
+  async getBlockedUntil(key: string): Promise<number> {
+    return this.entries.get(key)?.blockedUntil ?? 0;
+  }
+
+  async blockUntil(key: string, until: number): Promise<void> {
+    const entry = this.entry(key);
+    entry.blockedUntil = Math.max(entry.blockedUntil, until);
+  }
+
+  async acquireLease(key: string, limit: number, ttlMs: number): Promise<string | null> {
+    const { leases } = this.entry(key);
+    const now = Date.now();
+    for (const [id, expiresAt] of leases) {
+      if (expiresAt <= now) leases.delete(id);
+    }
+    if (leases.size >= limit) return null;
+
+    const id = randomUUID();
+    leases.set(id, now + ttlMs);
+    return id;
+  }
+
+  async releaseLease(key: string, leaseId: string): Promise<void> {
+    this.entries.get(key)?.leases.delete(leaseId);
+  }
+
+  private entry(key: string): MemoryEntry {
+    this.sweep();
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { blockedUntil: 0, rateLimiter: null, settingsKey: "", leases: new Map() };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+
+    for (const [key, entry] of this.entries) {
+      for (const [id, expiresAt] of entry.leases) {
+        if (expiresAt <= now) entry.leases.delete(id);
+      }
+      const idle =
+        entry.blockedUntil <= now &&
+        entry.leases.size === 0 &&
+        (!entry.rateLimiter || entry.rateLimiter.fullAt() <= now);
+      if (idle) this.entries.delete(key);
+    }
+  }
+}
@@ -1,22 +1,198 @@
 import type {
+  IAdditionalCredentialOptions,
+  IDataObject,
   IExecuteFunctions,
   IHttpRequestOptions,
+  INodeExecutionData,
+  IOAuth2Options,
+  IRequestOptions,
+  JsonObject,
+  PaginationOptions,
 } from "n8n-workflow";
-import { NodeOperationError, sleep } from "n8n-workflow";
-import { computeWaitMs, applyJitter } from "./throttling";
+import { NodeApiError, NodeOperationError, sleep } from "n8n-workflow";
+import {
+  explainWaitMs,
+  computeSlowdownMs,
+  computePageDelayMs,
+  computeBackoffMs,
+  jitterWaitMs,
+  normalizeHeaders,
+  readQuotaHeaders,
+  type BackoffSettings,
+  type HeaderMapping,
+  type WaitDecision,
+  type WaitSource,
+} from "./throttling";
+import {
+  connectionErrorCode,
+  mayRepeatRequest,
+  mayRetryThrottled,
+  withIdempotencyKey,
+  type MethodRetryPolicy,
+} from "./retry-policy";
+import {
+  detectBodyThrottle,
+  parseJsonBody,
+  type BodyThrottle,
+  type BodyThrottleRule,
+} from "./body-rules";
+import {
+  hostOf,
+  resolveBucketKey,
+  type BucketRef,
+  type BucketScope,
+} from "./bucket-registry";
+import {
+  getCircuitBreaker,
+  type CircuitBreaker,
+  type CircuitSettings,
+} from "./circuit-breaker";
+import { countExhausted, countRetry, countThrottle } from "./metrics";
+import { emitThrottleEvent } from "./throttle-events";
+import type { MockResponse } from "./simulation";
+import { configForUrl, type UrlRule } from "./url-rules";
+import { ThrottleStoreError, type RateLimitSettings, type ThrottleStore } from "./throttle-store";
+import {
+  resolveProviderProfile,
+  providerAllowsRetry,
+  type ProviderProfile,
+} from "./providers";
 
 export interface ThrottleConfig {
   codes: Set<string>;
   defaultWaitMs: number;
   jitterPercent: number;
   maxRetries: number;
+  rateLimit: RateLimitSettings;
+  /** Per-URL overrides of codes, waits and retries; the first match wins */
+  urlRules: UrlRule[];
+  /** Remaining quota below which successful responses slow us down (0 = off) */
+  slowdownThreshold: number;
+  /** Space the pages of V3's pagination by the remaining quota */
+  paginationPacing: boolean;
+  /** Which requests share rate-limit state across executions */
+  bucketScope: BucketScope;
+  /** User-defined key for bucketScope "custom" */
+  bucketKey: string;
+  /** Backend for shared buckets (process-wide memory or Redis) */
+  sharedStore: ThrottleStore;
+  /** Execution-local store, used when no shared bucket applies */
+  localStore: ThrottleStore;
+  /** Provider header profile: "auto" (by host), "none" or a profile id */
+  provider: string;
+  /** User-declared non-standard rate-limit headers, consulted first */
+  headerMappings: HeaderMapping[];
+  /** Rules that recognize throttling in the response body */
+  bodyRules: BodyThrottleRule[];
+  /** How waits grow with the attempt number when no header names a wait */
+  backoff: BackoffSettings;
+  /** Cap for a single wait in ms (replaces MAX_THROTTLE_WAIT_MS) */
+  maxWaitMs: number;
+  /** Total throttle wait allowed per input item in ms (0 = unlimited) */
+  maxItemWaitMs: number;
+  /** Total throttle wait allowed per execution in ms (0 = unlimited) */
+  maxExecutionWaitMs: number;
+  /** Wait already spent in this execution; shared by all items */
+  waitBudget: WaitBudgetState;
+  /** Retry requests that fail with a connection error instead of a response */
+  retryConnectionErrors: boolean;
+  /** Error codes / message fragments that count as connection errors */
+  connectionErrorCodes: Set<string>;
+  maxConnectionRetries: number;
+  /** Also retry non-idempotent methods (POST, PATCH) after connection errors */
+  connectionRetryAllMethods: boolean;
+  /** Which methods may be retried after a throttle response */
+  methodRetryPolicy: MethodRetryPolicy;
+  /** Add a generated idempotency key to POST/PATCH requests */
+  idempotencyKey: boolean;
+  idempotencyKeyHeader: string;
+  /** Requests of one bucket that may be in flight at once (0 = unlimited) */
+  maxConcurrent: number;
+  /** Per-host circuit breaker (threshold 0 = disabled) */
+  circuitBreaker: CircuitSettings;
+  /** Attach a `$throttling` summary to every output item */
+  includeMetadata: boolean;
+  /** itemIndex → throttling summary; shared by all items */
+  metadata: Map<number, ThrottleMetadata>;
+  /** Route items with exhausted throttle retries to a second output */
+  throttledOutput: boolean;
+  /** Waits above this go to the second output instead of sleeping (0 = off) */
+  deferWaitsAboveMs: number;
+  /** itemIndex → items for the second output: retries ran out or wait deferred */
+  exhausted: Map<number, ThrottleExhaustion>;
+  /**
+   * Hand exhausted and deferred throttle responses back to the caller, whose
+   * output items `routeExhaustedItems` replaces. Only the HTTP Request node
+   * turns any response into items; other callers get an item error instead.
+   */
+  passThrottledResponses: boolean;
+  /** File the structured throttling events are appended to ("" = off) */
+  eventLogFile: string;
+  /** Replay scripted responses on a virtual clock instead of sending requests */
+  simulate: boolean;
+  simulationResponses: MockResponse[];
+}
+
+/** Last throttle response of a request whose retries were exhausted or whose wait was deferred */
+export interface ThrottleExhaustion {
+  /** null when a deferred request was never sent */
+  statusCode: number | null;
+  headers: Record<string, unknown>;
+  body: unknown;
+  /** Epoch ms from which the API is expected to accept the request again */
+  nextAllowedAt: number;
+  /** Pages passed on before a paginated request ran out of retries */
+  pagesFetched?: number;
+  /** The page request that ran out of retries, to continue from */
+  resumeRequest?: IDataObject;
+  /** The wait was longer than `deferWaitsAboveMs`; retries did not run out */
+  deferred?: boolean;
+}
+
+/** Per-item throttling summary, attached to output items as `$throttling` */
+export interface ThrottleMetadata {
+  /** Requests sent for the item, including retries */
+  attempts: number;
+  totalWaitMs: number;
+  /** Status of the last response (null when none arrived) */
+  lastStatus: number | null;
+  /** Where the last wait came from (null when the item never waited) */
+  waitSource: WaitSource | null;
+  /** Remaining quota reported by the last response */
+  remaining: number | null;
+}
+
+/** A request's pass through the host's circuit breaker */
+export interface CircuitTicket {
+  breaker: CircuitBreaker;
+  host: string;
+  /** true when this request is the half-open probe */
+  probe: boolean;
+}
+
+// A crashed worker's concurrency slots are freed after this long
+const LEASE_TTL_MS = 10 * 60_000;
+
+// Polling interval bounds while all concurrency slots are taken
+const LEASE_POLL_MIN_MS = 10;
+const LEASE_POLL_MAX_MS = 250;
+
+export interface WaitBudgetState {
+  executionMs: number;
+  /** itemIndex → wait spent on that item */
+  itemMs: Map<number, number>;
 }
 
 /**
- * Wraps `this.helpers.httpRequest` and `this.helpers.httpRequestWithAuthentication`
- * with transparent throttling. When a response has a throttle status code,
- * the wrapper waits and retries automatically. The caller (V3 execute) never
- * sees the throttle response.
+ * Wraps the request helpers of `this.helpers` with transparent throttling:
+ * `httpRequest` and `httpRequestWithAuthentication`, and the legacy
+ * `request`, `requestWithAuthentication`, `requestOAuth1` and
+ * `requestOAuth2` that parts of V3 and credential flows still use. When a
+ * response has a throttle status code, the wrapper waits and retries
+ * automatically. The caller (V3 execute) never sees the throttle response.
+ *
+ * `requestWithAuthenticationPaginated` is wrapped as well, so every page of
+ * V3's pagination is throttled on its own (see `throttledPagination`).
  */
 export function wrapHelpersWithThrottling(
   ctx: IExecuteFunctions,
@@ -24,10 +200,8 @@ export function wrapHelpersWithThrottling(
 ): void {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const helpers = ctx.helpers as any;
-
-  const originalHttpRequest = helpers.httpRequest.bind(helpers);
-  const originalHttpRequestWithAuth =
-    helpers.httpRequestWithAuthentication.bind(ctx);
+  const raw = unthrottledContext(ctx);
+  const currentItem = trackItemIndex(ctx);
 
   helpers.httpRequest = async (
     requestOptions: IHttpRequestOptions,
@@ -35,84 +209,1129 @@ export function wrapHelpersWithThrottling(
     return throttledCall(
       ctx,
       config,
+      currentItem(),
       requestOptions,
-      (opts) => originalHttpRequest(opts),
+      (opts) => raw.helpers.httpRequest(opts),
     );
   };
 
   helpers.httpRequestWithAuthentication = async (
     credentialsType: string,
     requestOptions: IHttpRequestOptions,
-    additionalCredentialOptions?: unknown,
+    additionalCredentialOptions?: IAdditionalCredentialOptions,
   ): Promise<any> => {
     return throttledCall(
       ctx,
       config,
+      currentItem(),
       requestOptions,
       (opts) =>
-        originalHttpRequestWithAuth(
+        raw.helpers.httpRequestWithAuthentication.call(
+          raw,
           credentialsType,
           opts,
           additionalCredentialOptions,
         ),
+      credentialsType,
+    );
+  };
+
+  // Legacy helpers: request-promise options and response shapes
+  if (typeof helpers.request === "function") {
+    helpers.request = async (
+      uriOrObject: string | IRequestOptions,
+      options?: IRequestOptions,
+    ): Promise<any> => {
+      return throttledLegacyCall(
+        ctx,
+        config,
+        currentItem(),
+        legacyOptions(uriOrObject, options),
+        (opts) => raw.helpers.request(opts),
+      );
+    };
+  }
+
+  if (typeof helpers.requestWithAuthentication === "function") {
+    helpers.requestWithAuthentication = async (
+      credentialsType: string,
+      requestOptions: IRequestOptions,
+      additionalCredentialOptions?: IAdditionalCredentialOptions,
+      itemIndex?: number,
+    ): Promise<any> => {
+      return throttledLegacyCall(
+        ctx,
+        config,
+        itemIndex ?? currentItem(),
+        requestOptions,
+        (opts) =>
+          raw.helpers.requestWithAuthentication.call(
+            raw,
+            credentialsType,
+            opts,
+            additionalCredentialOptions,
+            itemIndex,
+          ),
+        credentialsType,
+      );
+    };
+  }
+
+  if (typeof helpers.requestOAuth1 === "function") {
+    helpers.requestOAuth1 = async (
+      credentialsType: string,
+      requestOptions: IRequestOptions,
+    ): Promise<any> => {
+      return throttledLegacyCall(
+        ctx,
+        config,
+        currentItem(),
+        requestOptions,
+        (opts) => raw.helpers.requestOAuth1.call(raw, credentialsType, opts),
+        credentialsType,
+      );
+    };
+  }
+
+  if (typeof helpers.requestOAuth2 === "function") {
+    helpers.requestOAuth2 = async (
+      credentialsType: string,
+      requestOptions: IRequestOptions,
+      oAuth2Options?: IOAuth2Options,
+    ): Promise<any> => {
+      return throttledLegacyCall(
+        ctx,
+        config,
+        currentItem(),
+        requestOptions,
+        (opts) => raw.helpers.requestOAuth2.call(raw, credentialsType, opts, oAuth2Options),
+        credentialsType,
+      );
+    };
+  }
+
+  if (typeof helpers.requestWithAuthenticationPaginated !== "function") return;
+  const originalPaginated = helpers.requestWithAuthenticationPaginated;
+
+  helpers.requestWithAuthenticationPaginated = async (
+    requestOptions: IRequestOptions,
+    itemIndex: number,
+    paginationOptions: PaginationOptions,
+    credentialsType?: string,
+    additionalCredentialOptions?: IAdditionalCredentialOptions,
+  ): Promise<any[]> => {
+    return throttledPagination(ctx, config, itemIndex, raw, (pageCtx) =>
+      originalPaginated.call(
+        pageCtx,
+        requestOptions,
+        itemIndex,
+        paginationOptions,
+        credentialsType,
+        additionalCredentialOptions,
+      ),
+    );
+  };
+}
+
+const REQUEST_HELPERS = [
+  "httpRequest",
+  "httpRequestWithAuthentication",
+  "request",
+  "requestWithAuthentication",
+  "requestOAuth1",
+  "requestOAuth2",
+] as const;
+
+/**
+ * A context whose request helpers are the context's own, taken before
+ * anything patches them. The throttled helpers send through it, so requests
+ * a helper sends itself (an OAuth2 token refresh, the legacy `request` behind
+ * `requestOAuth2`) belong to the throttled call instead of being throttled
+ * a second time.
+ */
+function unthrottledContext(ctx: IExecuteFunctions): IExecuteFunctions {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const helpers = ctx.helpers as any;
+  const originals: PropertyDescriptorMap = {};
+  for (const name of REQUEST_HELPERS) {
+    if (typeof helpers[name] === "function") originals[name] = { value: helpers[name] };
+  }
+  return Object.create(ctx, {
+    helpers: { value: Object.create(helpers, originals) },
+  }) as IExecuteFunctions;
+}
+
+/** `request(uri, options)` and `request(options)` as one options object */
+function legacyOptions(
+  uriOrObject: string | IRequestOptions,
+  options?: IRequestOptions,
+): IRequestOptions {
+  return typeof uriOrObject === "string" ? { ...options, uri: uriOrObject } : uriOrObject;
+}
+
+/**
+ * Sends one request through the throttle loop with the context's own
+ * `httpRequest` helpers. For the self-contained fallback, which builds its
+ * requests itself instead of going through wrapped helpers.
+ */
+export function sendWithThrottling(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  itemIndex: number,
+  requestOptions: IHttpRequestOptions,
+  credentialsType?: string,
+): Promise<any> {
+  const raw = unthrottledContext(ctx);
+  return throttledCall(
+    ctx,
+    config,
+    itemIndex,
+    requestOptions,
+    (opts) =>
+      credentialsType
+        ? raw.helpers.httpRequestWithAuthentication.call(raw, credentialsType, opts)
+        : raw.helpers.httpRequest(opts),
+    credentialsType,
+  );
+}
+
+/**
+ * Runs n8n's pagination for one item of the fallback with every page
+ * throttled, like the wrapped helper does for V3 (see `throttledPagination`).
+ */
+export function paginateWithThrottling(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  itemIndex: number,
+  requestOptions: IRequestOptions,
+  paginationOptions: PaginationOptions,
+  credentialsType?: string,
+): Promise<any[]> {
+  const raw = unthrottledContext(ctx);
+  return throttledPagination(ctx, config, itemIndex, raw, (pageCtx) =>
+    raw.helpers.requestWithAuthenticationPaginated.call(
+      pageCtx,
+      requestOptions,
+      itemIndex,
+      paginationOptions,
+      credentialsType,
+    ),
+  );
+}
+
+/**
+ * Runs one paginated request of an item with every page throttled on its
+ * own. n8n's pagination loop sends its pages through `this.helpers.request`
+ * and `requestWithAuthentication`; `paginate` gets a context whose helpers
+ * route those through `throttledCall`, sending with `raw`'s unpatched helpers
+ * (see `unthrottledContext`). A throttled page is therefore retried
+ * after its wait and pagination continues with the next page, instead of
+ * starting over.
+ *
+ * When a page runs out of retries and the "Throttled / Failed" output is
+ * enabled, the pages fetched so far are returned and the item's exhaustion
+ * records how many there were and which page request to resume from.
+ * Otherwise the error propagates as before: a silently truncated result
+ * would look complete.
+ *
+ * With `paginationPacing`, each page after the first waits until the quota
+ * reported by the previous page, spread evenly until its reset, allows it.
+ */
+async function throttledPagination(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  itemIndex: number,
+  raw: IExecuteFunctions,
+  paginate: (pageCtx: IExecuteFunctions) => Promise<any[]>,
+): Promise<any[]> {
+  const pages: unknown[] = [];
+  const exhaustedBefore = config.exhausted.get(itemIndex);
+  let previousHeaders: Record<string, unknown> | null = null;
+  let exhaustedPage: IRequestOptions | null = null;
+  let exhaustedResponse: unknown;
+
+  const sendPage = async (
+    options: IRequestOptions,
+    send: (opts: IRequestOptions) => Promise<any>,
+    credentialsType?: string,
+  ): Promise<any> => {
+    if (exhaustedPage) {
+      // The loop only gets here when it ignores the exhausted page's status
+      throw new NodeOperationError(ctx.getNode(), "Throttling: pagination stopped", { itemIndex });
+    }
+    const url = options.uri ?? options.url;
+    if (config.paginationPacing && previousHeaders) {
+      const delay = computePageDelayMs(previousHeaders, {
+        profile: resolveProviderProfile(config.provider, url),
+        headerMappings: config.headerMappings,
+        maxWaitMs: config.maxWaitMs,
+      });
+      if (delay > 0) {
+        ctx.logger.debug(`[Throttling] Pacing pagination, waiting ${Math.round(delay)}ms before page ${pages.length + 1}`);
+        await sleep(delay);
+      }
+    }
+
+    const response = await throttledLegacyCall(ctx, config, itemIndex, options, send, credentialsType);
+    if (config.exhausted.get(itemIndex) !== exhaustedBefore) {
+      exhaustedPage = options;
+      exhaustedResponse = response;
+      return response;
+    }
+    pages.push(response);
+    previousHeaders =
+      typeof response === "object" && response !== null ? response.headers ?? {} : {};
+    return response;
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const pageHelpers = Object.create(ctx.helpers as any, {
+    request: {
+      value: (uriOrObject: string | IRequestOptions, options?: IRequestOptions) =>
+        sendPage(legacyOptions(uriOrObject, options), (opts) => raw.helpers.request(opts)),
+    },
+    requestWithAuthentication: {
+      value: (
+        credentialsType: string,
+        options: IRequestOptions,
+        additionalCredentialOptions?: IAdditionalCredentialOptions,
+      ) =>
+        sendPage(
+          options,
+          (opts) =>
+            raw.helpers.requestWithAuthentication.call(
+              raw, credentialsType, opts, additionalCredentialOptions,
+            ),
+          credentialsType,
+        ),
+    },
+  });
+  const pageCtx = Object.create(ctx, { helpers: { value: pageHelpers } }) as IExecuteFunctions;
+
+  let result: any[] | undefined;
+  try {
+    result = await paginate(pageCtx);
+  } catch (err) {
+    if (!exhaustedPage) {
+      if (pages.length > 0) {
+        ctx.logger.warn(`[Throttling] Pagination failed after ${pages.length} pages`);
+      }
+      throw err;
+    }
+  }
+  if (!exhaustedPage) return result ?? [];
+
+  // No page made it: pass the throttle response on, like an unpaginated request
+  if (pages.length === 0) return [exhaustedResponse];
+
+  const page = exhaustedPage as IRequestOptions;
+  config.exhausted.set(itemIndex, {
+    ...config.exhausted.get(itemIndex)!,
+    pagesFetched: pages.length,
+    resumeRequest: {
+      url: page.uri ?? page.url,
+      qs: page.qs,
+      body: page.body,
+    },
+  });
+  ctx.logger.info(
+    `[Throttling] Pagination stopped at page ${pages.length + 1}, keeping ${pages.length} fetched pages`,
+  );
+  return pages;
+}
+
+/**
+ * Sends a request of the legacy `request` helpers (request-promise options:
+ * `uri` or `baseURL` + `url`, `resolveWithFullResponse`, `simple`) through
+ * `throttledCall`, which speaks `httpRequest` options. Like request-promise,
+ * the result is the body, or `{ body, headers, statusCode }` with
+ * `resolveWithFullResponse`.
+ */
+function throttledLegacyCall(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  itemIndex: number,
+  requestOptions: IRequestOptions,
+  doRequest: (opts: IRequestOptions) => Promise<any>,
+  credentialsType?: string,
+): Promise<any> {
+  const url = requestOptions.uri ?? requestOptions.url ?? "";
+  const options: IHttpRequestOptions = {
+    url: requestOptions.baseURL && !/^[a-z][a-z\d+.-]*:/i.test(url)
+      ? `${requestOptions.baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`
+      : url,
+    method: requestOptions.method,
+    headers: requestOptions.headers,
+    returnFullResponse: requestOptions.resolveWithFullResponse === true,
+    ignoreHttpStatusErrors: requestOptions.simple === false,
+  };
+  return throttledCall(
+    ctx,
+    config,
+    itemIndex,
+    options,
+    (opts) =>
+      doRequest({
+        ...requestOptions,
+        headers: opts.headers,
+        resolveWithFullResponse: opts.returnFullResponse,
+        simple: !opts.ignoreHttpStatusErrors,
+      }),
+    credentialsType,
+  );
+}
+
+/**
+ * Tracks which input item V3 is working on. V3 reads the item's parameters
+ * and calls the request helper synchronously within the same loop iteration,
+ * so the last item index passed to `getNodeParameter` is the item a helper
+ * call belongs to — as long as it is read before the first `await`.
+ */
+function trackItemIndex(ctx: IExecuteFunctions): () => number {
+  let current = 0;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const original = ctx.getNodeParameter.bind(ctx) as (...args: any[]) => unknown;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (ctx as any).getNodeParameter = (name: string, itemIndex: number, ...rest: unknown[]) => {
+    if (typeof itemIndex === "number") current = itemIndex;
+    return original(name, itemIndex, ...rest);
+  };
+  return () => current;
+}
+
+/**
+ * Books a throttle wait against the item's and the execution's budget.
+ * Throws (before anything is booked) when the wait would exceed either
+ * budget, so the item fails fast instead of sleeping in vain; the error
+ * carries the item index and is subject to continueOnFail.
+ */
+export function spendWaitBudget(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  itemIndex: number,
+  waitMs: number,
+): void {
+  const budget = config.waitBudget;
+  const itemSpent = budget.itemMs.get(itemIndex) ?? 0;
+
+  if (config.maxItemWaitMs > 0 && itemSpent + waitMs > config.maxItemWaitMs) {
+    throw new NodeOperationError(ctx.getNode(),
+      `Throttling: waiting ${Math.round(waitMs)}ms would exceed the wait budget per item (${config.maxItemWaitMs}ms, ${Math.round(itemSpent)}ms used)`,
+      { itemIndex },
+    );
+  }
+  if (
+    config.maxExecutionWaitMs > 0 &&
+    budget.executionMs + waitMs > config.maxExecutionWaitMs
+  ) {
+    throw new NodeOperationError(ctx.getNode(),
+      `Throttling: waiting ${Math.round(waitMs)}ms would exceed the wait budget per execution (${config.maxExecutionWaitMs}ms, ${Math.round(budget.executionMs)}ms used)`,
+      { itemIndex },
     );
+  }
+
+  budget.itemMs.set(itemIndex, itemSpent + waitMs);
+  budget.executionMs += waitMs;
+}
+
+function itemMetadata(config: ThrottleConfig, itemIndex: number): ThrottleMetadata {
+  let meta = config.metadata.get(itemIndex);
+  if (!meta) {
+    meta = { attempts: 0, totalWaitMs: 0, lastStatus: null, waitSource: null, remaining: null };
+    config.metadata.set(itemIndex, meta);
+  }
+  return meta;
+}
+
+/** Counts a sent request for the item; `statusCode` is null when no response arrived */
+export function recordAttempt(
+  config: ThrottleConfig,
+  itemIndex: number,
+  statusCode: number | null,
+  headers: Record<string, unknown>,
+  profile: ProviderProfile | null,
+): void {
+  const meta = itemMetadata(config, itemIndex);
+  meta.attempts++;
+  if (statusCode === null) return;
+  meta.lastStatus = statusCode;
+  meta.remaining = readQuotaHeaders(normalizeHeaders(headers), {
+    profile,
+    headerMappings: config.headerMappings,
+  }).remaining;
+}
+
+export function recordWait(
+  config: ThrottleConfig,
+  itemIndex: number,
+  waitMs: number,
+  source: WaitSource,
+): void {
+  const meta = itemMetadata(config, itemIndex);
+  meta.totalWaitMs += waitMs;
+  meta.waitSource = source;
+}
+
+/** Input item an output item belongs to, from its `pairedItem` */
+function pairedItemIndex(item: INodeExecutionData): number | undefined {
+  const paired = Array.isArray(item.pairedItem) ? item.pairedItem[0] : item.pairedItem;
+  return typeof paired === "number" ? paired : paired?.item;
+}
+
+/** Response body as JSON when possible, otherwise as text */
+function readableBody(body: unknown): unknown {
+  return parseJsonBody(body) ?? (Buffer.isBuffer(body) ? body.toString("utf8") : body ?? null);
+}
+
+/**
+ * Adds the recorded `$throttling` summary to the output items, matched to
+ * their input item via `pairedItem`. Items without requests stay unchanged.
+ */
+export function attachThrottleMetadata(
+  outputs: INodeExecutionData[][],
+  config: ThrottleConfig,
+): INodeExecutionData[][] {
+  return outputs.map((items) =>
+    items.map((item) => {
+      const itemIndex = pairedItemIndex(item);
+      const meta = itemIndex !== undefined ? config.metadata.get(itemIndex) : undefined;
+      if (!meta) return item;
+      return {
+        ...item,
+        json: {
+          ...item.json,
+          $throttling: { ...meta, totalWaitMs: Math.round(meta.totalWaitMs) },
+        },
+      };
+    }),
+  );
+}
+
+/** Remembers the last throttle response of an item whose retries ran out */
+export function recordExhaustion(
+  config: ThrottleConfig,
+  itemIndex: number,
+  response: { statusCode: number; headers: Record<string, unknown>; body: unknown },
+  waitMs: number,
+): ThrottleExhaustion {
+  const exhaustion = { ...response, nextAllowedAt: Date.now() + waitMs };
+  config.exhausted.set(itemIndex, exhaustion);
+  return exhaustion;
+}
+
+/**
+ * Hands an item to the "Throttled / Failed" output because its next request
+ * may only be sent at `nextAllowedAt`, later than `deferWaitsAboveMs`.
+ * `response` is null when the request was deferred before it was sent.
+ *
+ * The node does not call `putExecutionToWait` itself: when n8n resumes a
+ * time-based wait, it disables the waiting node and passes its input through
+ * unchanged, so neither the node's output nor its pending item would
+ * survive. A Wait node behind the second output gets the persisted waiting
+ * state instead.
+ */
+export function recordDeferral(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  itemIndex: number,
+  host: string,
+  response: { statusCode: number; headers: Record<string, unknown>; body: unknown } | null,
+  nextAllowedAt: number,
+): ThrottleExhaustion {
+  const deferral: ThrottleExhaustion = {
+    statusCode: response?.statusCode ?? null,
+    headers: response?.headers ?? {},
+    body: response?.body ?? null,
+    nextAllowedAt,
+    deferred: true,
   };
+  config.exhausted.set(itemIndex, deferral);
+
+  const waitMs = Math.max(0, Math.round(nextAllowedAt - Date.now()));
+  emitThrottleEvent(ctx, config.eventLogFile, {
+    type: "deferred", itemIndex, host, waitMs,
+    ...(response && { status: response.statusCode }),
+  });
+  ctx.logger.info(
+    `[Throttling] Next request for item ${itemIndex} allowed in ${waitMs}ms (over ${config.deferWaitsAboveMs}ms), deferring the item`,
+  );
+  return deferral;
+}
+
+/**
+ * Error of an item whose wait was deferred, for callers that cannot be handed
+ * a response (see `passThrottledResponses`). With continue-on-fail the error
+ * item is paired to the input item and `routeExhaustedItems` replaces it.
+ */
+export function deferralError(
+  ctx: IExecuteFunctions,
+  itemIndex: number,
+  nextAllowedAt: number,
+): NodeOperationError {
+  return new NodeOperationError(ctx.getNode(),
+    `Throttling: next request allowed at ${new Date(nextAllowedAt).toISOString()}, item deferred`,
+    { itemIndex },
+  );
+}
+
+/**
+ * Returns when the bucket's block ends if that is further away than
+ * `deferWaitsAboveMs`, so the request is deferred without being sent;
+ * otherwise null.
+ */
+export async function deferredUntil(
+  config: ThrottleConfig,
+  bucket: BucketRef,
+): Promise<number | null> {
+  if (!(config.deferWaitsAboveMs > 0)) return null;
+  const blockedUntil = await bucket.store.getBlockedUntil(bucket.key);
+  return blockedUntil - Date.now() > config.deferWaitsAboveMs ? blockedUntil : null;
+}
+
+/**
+ * Item for the "Throttled / Failed" output when a wait was deferred: the
+ * unchanged input item, so it can be fed back into the node after a Wait
+ * node, plus `$deferred` with the time from which to send it again.
+ */
+export function deferredItem(
+  exhaustion: ThrottleExhaustion,
+  itemIndex: number,
+  input?: INodeExecutionData,
+): INodeExecutionData {
+  return {
+    json: {
+      ...input?.json,
+      $deferred: {
+        nextAllowedAt: new Date(exhaustion.nextAllowedAt).toISOString(),
+        statusCode: exhaustion.statusCode,
+        ...(exhaustion.pagesFetched !== undefined && {
+          pagesFetched: exhaustion.pagesFetched,
+          resumeRequest: exhaustion.resumeRequest,
+        }),
+      },
+    },
+    ...(input?.binary && { binary: input.binary }),
+    pairedItem: { item: itemIndex },
+  };
+}
+
+/** JSON of an item sent to the "Throttled / Failed" output */
+export function exhaustedItemJson(
+  config: ThrottleConfig,
+  exhaustion: ThrottleExhaustion,
+): IDataObject {
+  return {
+    error: `Throttling: max retries (${config.maxRetries}) exceeded. Last status: ${exhaustion.statusCode}`,
+    statusCode: exhaustion.statusCode,
+    headers: exhaustion.headers as IDataObject,
+    body: readableBody(exhaustion.body) as IDataObject,
+    nextAllowedAt: new Date(exhaustion.nextAllowedAt).toISOString(),
+    ...(exhaustion.pagesFetched !== undefined && {
+      pagesFetched: exhaustion.pagesFetched,
+      resumeRequest: exhaustion.resumeRequest,
+    }),
+  };
+}
+
+/**
+ * Splits V3's output into success and "Throttled / Failed": output items of
+ * input items whose retries ran out are replaced by one item with the last
+ * throttle response, those of deferred items by the input item (see
+ * `deferredItem`). Pages fetched before a paginated request stopped stay in
+ * the success output; the failed item is added next to them.
+ */
+export function routeExhaustedItems(
+  outputs: INodeExecutionData[][],
+  config: ThrottleConfig,
+  inputItems: INodeExecutionData[] = [],
+): INodeExecutionData[][] {
+  const success: INodeExecutionData[] = [];
+  const throttled: INodeExecutionData[] = [];
+  const routed = new Set<number>();
+
+  for (const item of outputs[0] ?? []) {
+    const itemIndex = pairedItemIndex(item);
+    const exhaustion = itemIndex !== undefined ? config.exhausted.get(itemIndex) : undefined;
+    if (itemIndex === undefined || !exhaustion) {
+      success.push(item);
+      continue;
+    }
+    if (exhaustion.pagesFetched) success.push(item);
+    // A throttle body split into several items still yields one failed item
+    if (routed.has(itemIndex)) continue;
+    routed.add(itemIndex);
+    throttled.push(
+      exhaustion.deferred
+        ? deferredItem(exhaustion, itemIndex, inputItems[itemIndex])
+        : { json: exhaustedItemJson(config, exhaustion), pairedItem: { item: itemIndex } },
+    );
+  }
+  return [success, throttled];
+}
+
+/**
+ * Picks the bucket a request is paced with: the shared bucket for the
+ * configured scope, or the execution-local one.
+ */
+export function selectBucket(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  url: string | undefined,
+  credentialsType?: string,
+): BucketRef {
+  const key = resolveBucketKey(config.bucketScope, {
+    url,
+    credentialsType,
+    credentialId: credentialsType
+      ? ctx.getNode().credentials?.[credentialsType]?.id ?? undefined
+      : undefined,
+    customKey: config.bucketKey,
+  });
+  return key
+    ? { store: config.sharedStore, key, settings: config.rateLimit }
+    : { store: config.localStore, key: "local", settings: config.rateLimit };
+}
+
+/**
+ * Waits until the next request may be sent: first until the bucket is no
+ * longer blocked (throttle response or pre-emptive slowdown, possibly learned
+ * by another execution or worker), then until the proactive rate limiter
+ * grants a token. Retries take a token as well, so they never overtake the
+ * configured rate.
+ */
+export async function waitForTurn(bucket: BucketRef): Promise<void> {
+  // Re-check after sleeping: another request may have extended the block meanwhile
+  let blockedMs = (await bucket.store.getBlockedUntil(bucket.key)) - Date.now();
+  while (blockedMs > 0) {
+    await sleep(blockedMs);
+    blockedMs = (await bucket.store.getBlockedUntil(bucket.key)) - Date.now();
+  }
+
+  if (!(bucket.settings.requestsPerInterval > 0)) return;
+  const wait = await bucket.store.reserveToken(bucket.key, bucket.settings);
+  if (wait > 0) await sleep(wait);
+}
+
+/**
+ * Base wait (before jitter) for a throttled response and where it came from:
+ * the wait named in the body when a body rule matched and provided one,
+ * otherwise the header logic with the configured backoff for the given
+ * retry (0-based).
+ */
+export function computeThrottleWaitMs(
+  config: ThrottleConfig,
+  headers: Record<string, unknown>,
+  profile: ProviderProfile | null,
+  bodyThrottle: BodyThrottle | null,
+  attempt: number,
+  previousWaitMs?: number,
+): WaitDecision {
+  if (bodyThrottle?.waitMs != null && bodyThrottle.waitMs > 0) {
+    return { waitMs: Math.min(bodyThrottle.waitMs, config.maxWaitMs), source: "body" };
+  }
+  return explainWaitMs(headers, config.defaultWaitMs, {
+    profile,
+    headerMappings: config.headerMappings,
+    maxWaitMs: config.maxWaitMs,
+    backoff: config.backoff,
+    attempt,
+    previousWaitMs,
+  });
+}
+
+/**
+ * Handles a request that failed without a response. When connection retries
+ * are enabled, the error matches a configured code and the request may be
+ * repeated safely (idempotent method or idempotency key), waits using the
+ * throttle backoff and returns the wait. Returns null when the error should
+ * propagate.
+ *
+ * @param attempt Connection retries already made for this request (0-based)
+ */
+export async function retryAfterConnectionError(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  itemIndex: number,
+  requestOptions: IHttpRequestOptions,
+  err: unknown,
+  attempt: number,
+  previousWaitMs?: number,
+): Promise<number | null> {
+  if (!config.retryConnectionErrors || attempt >= config.maxConnectionRetries) return null;
+  if (
+    !config.connectionRetryAllMethods &&
+    !mayRepeatRequest(requestOptions, config.idempotencyKeyHeader)
+  ) {
+    return null;
+  }
+  const code = connectionErrorCode(err, config.connectionErrorCodes);
+  if (!code) return null;
+
+  const baseWait = computeBackoffMs(config.defaultWaitMs, attempt, config.backoff, previousWaitMs);
+  const wait = Math.min(
+    jitterWaitMs(baseWait, "connectionError", config.jitterPercent, config.backoff),
+    config.maxWaitMs,
+  );
+  spendWaitBudget(ctx, config, itemIndex, wait);
+
+  const event = { itemIndex, host: hostOf(requestOptions.url) ?? "unknown", attempt: attempt + 1 };
+  emitThrottleEvent(ctx, config.eventLogFile, {
+    ...event, type: "wait", waitMs: Math.round(wait), source: "connectionError",
+  });
+  ctx.logger.warn(
+    `[Throttling] Connection error ${code}, retry ${attempt + 1}/${config.maxConnectionRetries}, waiting ${Math.round(wait)}ms`,
+  );
+  await sleep(wait);
+  emitThrottleEvent(ctx, config.eventLogFile, { ...event, type: "retry" });
+  return wait;
+}
+
+/**
+ * Runs `send` while holding one of `limit` concurrency slots of the bucket.
+ * Slots are store leases, so a shared bucket limits in-flight requests
+ * across executions (and across workers with the Redis store). The slot is
+ * held only while the request is in flight, never during throttle waits.
+ * A failed release is logged, not thrown: it must not replace the request's
+ * own result, and the lease expires after its TTL anyway.
+ */
+export async function withConcurrencySlot<T>(
+  ctx: IExecuteFunctions,
+  bucket: BucketRef,
+  limit: number,
+  send: () => Promise<T>,
+): Promise<T> {
+  if (!(limit > 0)) return send();
+
+  let pollMs = LEASE_POLL_MIN_MS;
+  let leaseId = await bucket.store.acquireLease(bucket.key, limit, LEASE_TTL_MS);
+  while (leaseId === null) {
+    await sleep(pollMs);
+    pollMs = Math.min(pollMs * 2, LEASE_POLL_MAX_MS);
+    leaseId = await bucket.store.acquireLease(bucket.key, limit, LEASE_TTL_MS);
+  }
+
+  try {
+    return await send();
+  } finally {
+    try {
+      await bucket.store.releaseLease(bucket.key, leaseId);
+    } catch (err) {
+      ctx.logger.warn(
+        `[Throttling] Could not release concurrency slot, it expires in ${LEASE_TTL_MS / 60_000} min: ${(err as Error).message}`,
+      );
+    }
+  }
+}
+
+/**
+ * Asks the host's circuit breaker whether the request may be sent. Throws
+ * when the circuit is open, so the item fails fast. Returns null when the
+ * breaker is disabled or the URL has no host.
+ */
+export function enterCircuit(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  url: string | undefined,
+  itemIndex: number,
+): CircuitTicket | null {
+  if (!(config.circuitBreaker.threshold > 0)) return null;
+  const host = hostOf(url);
+  if (!host) return null;
+
+  const breaker = getCircuitBreaker(host);
+  const admission = breaker.admit(config.circuitBreaker);
+  if (!admission.allowed) {
+    throw circuitOpenError(ctx, config, host, admission.retryInMs, itemIndex);
+  }
+  if (admission.probe) {
+    ctx.logger.info(`[Throttling] Circuit for ${host} half-open, sending probe request`);
+  }
+  return { breaker, host, probe: admission.probe };
+}
+
+/** Records a failed request; returns true when the circuit is now open */
+export function tripCircuit(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  ticket: CircuitTicket | null,
+  itemIndex: number,
+): boolean {
+  if (!ticket) return false;
+  const wasOpen = ticket.breaker.getState() === "open";
+  ticket.breaker.recordFailure(config.circuitBreaker);
+  const open = ticket.breaker.getState() === "open";
+  if (open && !wasOpen) {
+    emitThrottleEvent(ctx, config.eventLogFile, { type: "circuit-open", itemIndex, host: ticket.host });
+  }
+  return open;
+}
+
+export function circuitOpenError(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  host: string,
+  retryInMs: number,
+  itemIndex: number,
+): NodeOperationError {
+  return new NodeOperationError(ctx.getNode(),
+    `Circuit breaker open for ${host} after ${config.circuitBreaker.threshold} consecutive failures — failing fast. Next probe in ${Math.ceil(retryInMs / 1000)}s`,
+    { itemIndex },
+  );
+}
+
+/** Blocks every request using the bucket for the next `waitMs` milliseconds */
+export async function blockBucket(bucket: BucketRef, waitMs: number): Promise<void> {
+  await bucket.store.blockUntil(bucket.key, Date.now() + waitMs);
+}
+
+/**
+ * Inspects the rate-limit headers of a successful response and, when the
+ * remaining quota drops below the threshold, delays the next request so the
+ * rest of the quota is spread until the window resets.
+ */
+export async function applySlowdown(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  bucket: BucketRef,
+  headers: Record<string, unknown>,
+  profile: ProviderProfile | null,
+): Promise<void> {
+  const slowdown = computeSlowdownMs(headers, config.slowdownThreshold, {
+    profile,
+    headerMappings: config.headerMappings,
+    maxWaitMs: config.maxWaitMs,
+  });
+  if (slowdown <= 0) return;
+
+  await blockBucket(bucket, slowdown);
+  ctx.logger.debug(
+    `[Throttling] Remaining quota below ${config.slowdownThreshold}, spacing next request by ${Math.round(slowdown)}ms`,
+  );
+}
+
+/**
+ * Stand-in response for a request deferred before it was sent. The HTTP
+ * Request node turns it into an output item that `routeExhaustedItems`
+ * replaces, so the body only has to parse like a real response of the
+ * requested encoding. Never handed to other callers.
+ */
+function deferredResponse(
+  options: IHttpRequestOptions,
+  nextAllowedAt: number,
+): { statusCode: number; headers: Record<string, string>; body: unknown } {
+  const message = { message: `Deferred by throttling until ${new Date(nextAllowedAt).toISOString()}` };
+  const text = JSON.stringify(message);
+  const body =
+    options.encoding === "arraybuffer" || options.encoding === "stream"
+      ? Buffer.from(text)
+      : options.encoding === "text" || options.json === false
+        ? text
+        : message;
+  return { statusCode: 429, headers: { "content-type": "application/json" }, body };
 }
 
 async function throttledCall(
   ctx: IExecuteFunctions,
   config: ThrottleConfig,
+  itemIndex: number,
   requestOptions: IHttpRequestOptions,
   doRequest: (opts: IHttpRequestOptions) => Promise<any>,
+  credentialsType?: string,
 ): Promise<any> {
+  try {
+    return await sendThrottled(ctx, config, itemIndex, requestOptions, doRequest, credentialsType);
+  } catch (err) {
+    // The bucket store failed, not the target host: fail the item as such. The
+    // cause goes into the description, so n8n does not reword a Redis
+    // ECONNREFUSED as the target service refusing the connection.
+    if (err instanceof ThrottleStoreError) {
+      throw new NodeOperationError(ctx.getNode(), "Throttling: bucket store unavailable", {
+        itemIndex,
+        description: err.message,
+      });
+    }
+    throw err;
+  }
+}
+
+async function sendThrottled(
+  ctx: IExecuteFunctions,
+  config: ThrottleConfig,
+  itemIndex: number,
+  requestOptions: IHttpRequestOptions,
+  doRequest: (opts: IHttpRequestOptions) => Promise<any>,
+  credentialsType?: string,
+): Promise<any> {
+  config = configForUrl(config, requestOptions.url);
   const wantFullResponse = requestOptions.returnFullResponse === true;
   const wantIgnoreErrors = requestOptions.ignoreHttpStatusErrors === true;
 
+  // Generated once per request, so all retries send the same key
+  const options = config.idempotencyKey
+    ? withIdempotencyKey(requestOptions, config.idempotencyKeyHeader)
+    : requestOptions;
+
   // Force full response so we can inspect the status code
   const patchedOptions: IHttpRequestOptions = {
-    ...requestOptions,
+    ...options,
     returnFullResponse: true,
     ignoreHttpStatusErrors: true,
   };
 
-  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
-    const response = await doRequest(patchedOptions);
+  const bucket = selectBucket(ctx, config, requestOptions.url, credentialsType);
+  const profile = resolveProviderProfile(config.provider, requestOptions.url);
+  const host = hostOf(options.url) ?? "unknown";
+  let previousWait: number | undefined;
+  let connectionAttempt = 0;
+  let attempt = 0;
+  const circuit = enterCircuit(ctx, config, options.url, itemIndex);
+
+  while (true) {
+    const blockedUntil = await deferredUntil(config, bucket);
+    if (blockedUntil !== null) {
+      recordDeferral(ctx, config, itemIndex, host, null, blockedUntil);
+      if (!config.passThrottledResponses) throw deferralError(ctx, itemIndex, blockedUntil);
+      const standIn = deferredResponse(options, blockedUntil);
+      return wantFullResponse ? standIn : standIn.body;
+    }
+    await waitForTurn(bucket);
+    let response: any;
+    try {
+      response = await withConcurrencySlot(
+        ctx, bucket, config.maxConcurrent, () => doRequest(patchedOptions),
+      );
+    } catch (err) {
+      // Concurrency leases live in the store; its failures are no connection errors
+      if (err instanceof ThrottleStoreError) throw err;
+      recordAttempt(config, itemIndex, null, {}, profile);
+      const waited = await retryAfterConnectionError(
+        ctx, config, itemIndex, options, err, connectionAttempt, previousWait,
+      );
+      if (waited === null) {
+        // Only an unreachable host counts; missing credentials or a bad URL say nothing about it
+        if (connectionErrorCode(err, config.connectionErrorCodes)) {
+          tripCircuit(ctx, config, circuit, itemIndex);
+        }
+        throw err;
+      }
+      recordWait(config, itemIndex, waited, "connectionError");
+      countRetry(host, "none", "connectionError", waited);
+      connectionAttempt++;
+      previousWait = waited;
+      continue;
+    }
 
     const statusCode =
       typeof response === "object" && response !== null
         ? response.statusCode ?? response.status ?? 200
         : 200;
     const statusStr = String(statusCode);
+    const headers =
+      typeof response === "object" && response !== null
+        ? response.headers ?? {}
+        : {};
+    recordAttempt(config, itemIndex, statusCode, headers, profile);
+
+    // Some APIs signal throttling in the body only (e.g. GraphQL with 200)
+    const bodyThrottle =
+      typeof response === "object" && response !== null
+        ? detectBodyThrottle(response.body, config.bodyRules, profile)
+        : null;
+
+    const throttled =
+      bodyThrottle !== null ||
+      (config.codes.has(statusStr) && providerAllowsRetry(profile, headers));
+    if (throttled) countThrottle(host, statusStr);
 
-    if (config.codes.has(statusStr)) {
+    if (
+      throttled &&
+      mayRetryThrottled(
+        config.methodRetryPolicy, options, statusCode, bodyThrottle !== null,
+        config.idempotencyKeyHeader,
+      )
+    ) {
+      const reason = bodyThrottle ? `${statusCode} (throttled by response body)` : statusStr;
+      const event = { itemIndex, host, status: statusCode, attempt: attempt + 1 };
+      if (attempt === 0) emitThrottleEvent(ctx, config.eventLogFile, { ...event, type: "throttle-start" });
+      if (circuit?.probe) {
+        // The probe found the host still throttling: open again without retrying
+        tripCircuit(ctx, config, circuit, itemIndex);
+        throw circuitOpenError(ctx, config, circuit.host, config.circuitBreaker.cooldownMs, itemIndex);
+      }
       if (attempt >= config.maxRetries) {
+        tripCircuit(ctx, config, circuit, itemIndex);
+        countExhausted(host, statusStr);
+        emitThrottleEvent(ctx, config.eventLogFile, { ...event, type: "exhausted" });
+        if (config.throttledOutput) {
+          const { waitMs } = computeThrottleWaitMs(
+            config, headers, profile, bodyThrottle, attempt, previousWait,
+          );
+          recordExhaustion(config, itemIndex, { statusCode, headers, body: response.body }, waitMs);
+          // Hand the response back; the node moves the item to the second output
+          if (config.passThrottledResponses) return wantFullResponse ? response : response.body;
+        }
         throw new NodeOperationError(ctx.getNode(),
-          `Throttling: max retries (${config.maxRetries}) exceeded. Last status: ${statusCode}`,
+          `Throttling: max retries (${config.maxRetries}) exceeded. Last status: ${reason}`,
+          { itemIndex },
         );
       }
 
-      const headers =
-        typeof response === "object" && response !== null
-          ? response.headers ?? {}
-          : {};
-      const baseWait = computeWaitMs(headers, config.defaultWaitMs);
-      const wait = applyJitter(baseWait, config.jitterPercent);
+      const { waitMs: baseWait, source } = computeThrottleWaitMs(
+        config, headers, profile, bodyThrottle, attempt, previousWait,
+      );
+      const wait = Math.min(
+        jitterWaitMs(baseWait, source, config.jitterPercent, config.backoff),
+        config.maxWaitMs,
+      );
+      previousWait = wait;
+      // Let every other request on this bucket pause until the reset as well
+      await blockBucket(bucket, wait);
+      if (config.deferWaitsAboveMs > 0 && wait > config.deferWaitsAboveMs) {
+        const nextAllowedAt = Date.now() + wait;
+        recordDeferral(ctx, config, itemIndex, host, { statusCode, headers, body: response.body }, nextAllowedAt);
+        if (!config.passThrottledResponses) throw deferralError(ctx, itemIndex, nextAllowedAt);
+        // Hand the response back; the node moves the item to the second output
+        return wantFullResponse ? response : response.body;
+      }
+      spendWaitBudget(ctx, config, itemIndex, wait);
+      recordWait(config, itemIndex, wait, source);
+      countRetry(host, statusStr, source, wait);
+      emitThrottleEvent(ctx, config.eventLogFile, {
+        ...event, type: "wait", waitMs: Math.round(wait), source,
+      });
 
       ctx.logger.info(
-        `[Throttling] Status ${statusCode}, attempt ${attempt + 1}/${config.maxRetries}, waiting ${Math.round(wait)}ms`,
+        `[Throttling] Status ${reason}, attempt ${attempt + 1}/${config.maxRetries}, waiting ${Math.round(wait)}ms`,
       );
 
       await sleep(wait);
+      emitThrottleEvent(ctx, config.eventLogFile, { ...event, type: "retry" });
+      attempt++;
       continue;
     }
 
-    // Not a throttle response — restore original behavior
+    // The host answered successfully: it is reachable and not throttling us.
+    // Error statuses neither close nor trip the circuit.
+    if (statusCode < 400) circuit?.breaker.recordSuccess();
+
+    // Not a throttle response (or one we may not retry) — restore original behavior
     if (!wantIgnoreErrors && statusCode >= 400) {
+      if (!mayRepeatRequest(options, config.idempotencyKeyHeader)) {
+        // Replaying would send a POST/PATCH a second time: fail with this response
+        throw new NodeApiError(
+          ctx.getNode(),
+          { statusCode, body: readableBody(response.body) } as JsonObject,
+          { httpCode: statusStr, itemIndex },
+        );
+      }
       // The original httpRequest would have thrown; re-throw with original options
       // so n8n's error formatting applies
-      return doRequest(requestOptions);
+      await waitForTurn(bucket);
+      return withConcurrencySlot(ctx, bucket, config.maxConcurrent, () => doRequest(options));
     }
 
+    await applySlowdown(ctx, config, bucket, headers, profile);
+
     if (!wantFullResponse) {
       // Caller only wanted the body
       return typeof response === "object" && response !== null
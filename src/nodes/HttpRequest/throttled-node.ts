@@ -0,0 +1,267 @@
+import type {
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+  INodeType,
+  INodeTypeDescription,
+} from "n8n-workflow";
+import { NodeOperationError } from "n8n-workflow";
+
+import {
+  loadNodeType,
+  describeNodeRef,
+  withNodeVersion,
+  type BaseNodeModule,
+  type BaseNodeRef,
+} from "./node-loader";
+import {
+  wrapHelpersWithThrottling,
+  attachThrottleMetadata,
+  routeExhaustedItems,
+} from "./throttle-wrapper";
+import { throttlingOutputs, throttlingProperties } from "./throttling-props";
+import { readThrottleConfig } from "./throttle-config";
+import { flushThrottleEvents } from "./throttle-events";
+import { bridgeMetrics } from "./metrics";
+import { simulateExecute } from "./simulation";
+
+// ── Filter properties to the base node's latest version ──────────────────────
+// Base nodes contain properties for MULTIPLE sub-versions (3, 3.1, 4, 4.1, …).
+// Duplicate properties exist for different versions (e.g. two "method" defs).
+// We filter to keep ONLY properties visible at the latest version, then strip
+// the @version gate so they work with our version: 1 (DB requires integer).
+
+export function filterToVersion(
+  properties: INodeProperties[],
+  targetVersion: number,
+): INodeProperties[] {
+  return properties
+    .filter((prop) => {
+      const showVersions = prop.displayOptions?.show?.["@version"];
+      const hideVersions = prop.displayOptions?.hide?.["@version"];
+
+      // No version gate → visible in all versions, keep it
+      if (!showVersions && !hideVersions) return true;
+
+      // show @version: keep only if targetVersion is in the list
+      if (showVersions && Array.isArray(showVersions)) {
+        if (!showVersions.includes(targetVersion)) return false;
+      }
+
+      // hide @version: discard if targetVersion is in the list
+      if (hideVersions && Array.isArray(hideVersions)) {
+        if (hideVersions.includes(targetVersion)) return false;
+      }
+
+      return true;
+    })
+    .map((prop) => {
+      // Strip @version from kept properties (our node is version 1)
+      const p = { ...prop };
+      if (p.displayOptions) {
+        p.displayOptions = { ...p.displayOptions };
+        if (p.displayOptions.show?.["@version"]) {
+          p.displayOptions.show = { ...p.displayOptions.show };
+          delete p.displayOptions.show["@version"];
+          if (Object.keys(p.displayOptions.show).length === 0) {
+            delete p.displayOptions.show;
+          }
+        }
+        if (p.displayOptions.hide?.["@version"]) {
+          p.displayOptions.hide = { ...p.displayOptions.hide };
+          delete p.displayOptions.hide["@version"];
+          if (Object.keys(p.displayOptions.hide).length === 0) {
+            delete p.displayOptions.hide;
+          }
+        }
+        if (!p.displayOptions.show && !p.displayOptions.hide) {
+          delete p.displayOptions;
+        }
+      }
+
+      // Recurse into fixedCollection / collection values
+      if (p.options) {
+        p.options = p.options.map((opt: any) => {
+          if (opt.values && Array.isArray(opt.values)) {
+            return { ...opt, values: filterToVersion(opt.values, targetVersion) };
+          }
+          return opt;
+        });
+      }
+
+      return p;
+    });
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+export interface ThrottledNodeOptions {
+  /** Internal name of the throttled node, e.g. "hubspotThrottled" */
+  name: string;
+  displayName: string;
+  /** Name of the base node for logs and errors, e.g. "HubSpot" */
+  baseName: string;
+  /** Modules to load the base node from, tried in order (see `nodeBaseModules`) */
+  modules: BaseNodeModule[];
+  /** Lowest base node version whose parameters are supported */
+  minVersion?: number;
+  /** Defaults to a generic icon: the base node's file icons do not resolve from this package */
+  icon?: INodeTypeDescription["icon"];
+  /** Defaults to the base node's subtitle */
+  subtitle?: string;
+  /** Defaults to the base node's description */
+  description?: string;
+  /** Defaults to the base node's color */
+  color?: string;
+  /**
+   * The base node turns every response into output items, so exhausted and
+   * deferred throttle responses can be handed to it and replaced afterwards
+   * (see `ThrottleConfig.passThrottledResponses`). Only HTTP Request does.
+   */
+  passThrottledResponses?: boolean;
+  /** Used instead of the base node when n8n-nodes-base is not available */
+  fallback?: {
+    description: INodeTypeDescription;
+    execute: (this: IExecuteFunctions, throttlingEnabled: boolean) => Promise<INodeExecutionData[][]>;
+  };
+}
+
+/** Description of the throttled node: the base node's parameters + throttling */
+function throttledDescription(
+  options: ThrottledNodeOptions,
+  base: BaseNodeRef,
+): INodeTypeDescription {
+  // Copy only properties + credentials from the base node (safe for community nodes).
+  // Strip @version display gates so all features are visible at version 1.
+  return {
+    name: options.name,
+    displayName: options.displayName,
+    icon: options.icon ?? "fa:tachometer-alt",
+    version: 1,
+    group: base.description.group,
+    subtitle: options.subtitle ?? base.description.subtitle,
+    description: options.description ?? base.description.description,
+    defaults: {
+      name: options.displayName,
+      ...((options.color ?? base.description.defaults.color) && {
+        color: options.color ?? base.description.defaults.color,
+      }),
+    },
+    inputs: ["main"],
+    outputs: throttlingOutputs,
+    credentials: base.description.credentials,
+    properties: [
+      ...filterToVersion(base.description.properties, base.version),
+      ...throttlingProperties,
+    ],
+  };
+}
+
+/** Description shown when neither the base node nor a fallback is available */
+function unavailableDescription(options: ThrottledNodeOptions): INodeTypeDescription {
+  return {
+    name: options.name,
+    displayName: options.displayName,
+    icon: options.icon ?? "fa:tachometer-alt",
+    version: 1,
+    group: ["transform"],
+    description: options.description ?? `${options.baseName} with automatic rate-limit throttling`,
+    defaults: { name: options.displayName },
+    inputs: ["main"],
+    outputs: ["main"],
+    properties: [
+      {
+        displayName: `The ${options.baseName} node of n8n-nodes-base could not be loaded in this n8n installation`,
+        name: "notice",
+        type: "notice",
+        default: "",
+      },
+    ],
+  };
+}
+
+/**
+ * Creates a throttled variant of an n8n-nodes-base node: its parameters,
+ * credentials and methods plus the throttling settings, executed by the base
+ * node itself with throttled request helpers (see `wrapHelpersWithThrottling`).
+ * The base node is loaded lazily, on first instantiation.
+ *
+ *   export class HubspotThrottled extends createThrottledNode({ … }) {}
+ */
+export function createThrottledNode(options: ThrottledNodeOptions): new () => INodeType {
+  let baseRef: BaseNodeRef | null | undefined; // undefined = not yet attempted
+  let reported = false;
+
+  const getBase = (): BaseNodeRef | null => {
+    if (baseRef === undefined) {
+      baseRef = loadNodeType(options.modules, options.minVersion);
+    }
+    return baseRef;
+  };
+
+  // Logs once per process which implementation the node runs on
+  const report = (ctx: IExecuteFunctions, base: BaseNodeRef | null): void => {
+    if (reported) return;
+    reported = true;
+    ctx.logger.info(
+      `[Throttling] ${base
+        ? describeNodeRef(base, options.baseName)
+        : `${options.baseName} node not available${options.fallback ? ", using fallback" : ""}`}`,
+    );
+  };
+
+  return class ThrottledNode implements INodeType {
+    description: INodeTypeDescription;
+    methods?: INodeType["methods"];
+
+    constructor() {
+      const base = getBase();
+      if (base) {
+        this.description = throttledDescription(options, base);
+        if (base.methods) this.methods = base.methods;
+      } else {
+        this.description = options.fallback?.description ?? unavailableDescription(options);
+      }
+    }
+
+    async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+      const base = getBase();
+      report(this, base);
+
+      let throttlingEnabled: boolean;
+      try {
+        throttlingEnabled = this.getNodeParameter("throttlingEnabled", 0, true) as boolean;
+      } catch {
+        throttlingEnabled = true;
+      }
+
+      const config = throttlingEnabled
+        ? { ...readThrottleConfig(this), passThrottledResponses: options.passThrottledResponses === true }
+        : null;
+      if (config) bridgeMetrics(this.logger);
+
+      // ── Simulation: replay scripted responses, no network calls ──────────
+      if (config?.simulate) {
+        return simulateExecute(this, config, config.simulationResponses);
+      }
+
+      // ── Base node path: delegate to the original node with throttled helpers
+      if (base) {
+        if (config) wrapHelpersWithThrottling(this, config);
+        let result = ((await base.execute.call(withNodeVersion(this, base.version))) ?? [[]]) as INodeExecutionData[][];
+        if (config?.eventLogFile) await flushThrottleEvents();
+        if (config?.throttledOutput) result = routeExhaustedItems(result, config, this.getInputData());
+        return config?.includeMetadata ? attachThrottleMetadata(result, config) : result;
+      }
+
+      // ── Fallback path ──────────────────────────────────────────────────────
+      if (options.fallback) {
+        return options.fallback.execute.call(this, throttlingEnabled);
+      }
+      throw new NodeOperationError(
+        this.getNode(),
+        `The ${options.baseName} node of n8n-nodes-base is not available in this n8n installation`,
+      );
+    }
+  };
+}
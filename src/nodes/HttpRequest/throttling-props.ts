@@ -1,4 +1,13 @@
-import type { INodeProperties } from "n8n-workflow";
+import type { INodeProperties, INodeTypeDescription } from "n8n-workflow";
+import { PROVIDER_PROFILES } from "./providers";
+import {
+  DEFAULT_CONNECTION_ERROR_CODES,
+  DEFAULT_IDEMPOTENCY_KEY_HEADER,
+} from "./retry-policy";
+
+/** Adds the "Throttled / Failed" output when the option is set */
+export const throttlingOutputs: INodeTypeDescription["outputs"] =
+  '={{ $parameter.throttling?.throttledOutput ? [{ type: "main", displayName: "Success" }, { type: "main", displayName: "Throttled / Failed" }] : ["main"] }}';
 
 export const throttlingProperties: INodeProperties[] = [
   {
@@ -54,6 +63,570 @@ export const throttlingProperties: INodeProperties[] = [
         description:
           "Maximum number of throttling retries before throwing an error",
       },
+      {
+        displayName: "Throttled / Failed Output",
+        name: "throttledOutput",
+        type: "boolean",
+        default: false,
+        description:
+          "Whether items whose throttle retries are exhausted go to a second output (with the last response and the next allowed time) instead of failing the node",
+      },
+      {
+        displayName: "Defer Waits Longer Than (ms)",
+        name: "deferWaitsAboveMs",
+        type: "number",
+        default: 0,
+        typeOptions: { minValue: 0 },
+        description:
+          "Instead of holding the worker during a longer wait, send the waiting item and all items after it to the Throttled / Failed output, unchanged and with $deferred.nextAllowedAt. Connect a Wait node to let n8n park the execution and loop them back. Requires the Throttled / Failed output (0 = always wait in the node).",
+      },
+      {
+        displayName: "Backoff Strategy",
+        name: "backoffStrategy",
+        type: "options",
+        default: "fixed",
+        description:
+          "How the wait grows with each retry when no response header names a wait time. Starts at the default wait time.",
+        options: [
+          {
+            name: "Fixed",
+            value: "fixed",
+            description: "Always wait the default wait time",
+          },
+          {
+            name: "Linear",
+            value: "linear",
+            description: "Default wait × retry number",
+          },
+          {
+            name: "Exponential",
+            value: "exponential",
+            description: "Default wait × multiplier^retry",
+          },
+          {
+            name: "Full Jitter",
+            value: "fullJitter",
+            description: "Random wait between 0 and the exponential wait",
+          },
+          {
+            name: "Decorrelated Jitter",
+            value: "decorrelatedJitter",
+            description: "Random wait between the default wait and 3 × the previous wait",
+          },
+        ],
+      },
+      {
+        displayName: "Backoff Multiplier",
+        name: "backoffMultiplier",
+        type: "number",
+        default: 2,
+        typeOptions: { minValue: 1, numberPrecision: 2 },
+        description: "Growth factor per retry",
+        displayOptions: { show: { backoffStrategy: ["exponential", "fullJitter"] } },
+      },
+      {
+        displayName: "Backoff Ceiling (ms)",
+        name: "backoffMaxMs",
+        type: "number",
+        default: 60_000,
+        typeOptions: { minValue: 0 },
+        description: "Upper limit for a single backoff wait",
+        displayOptions: { hide: { backoffStrategy: ["fixed"] } },
+      },
+      {
+        displayName: "Max Single Wait (ms)",
+        name: "maxWaitMs",
+        type: "number",
+        default: 300_000,
+        typeOptions: { minValue: 0 },
+        description:
+          "Upper limit for one wait, even if the API asks for longer (0 = 300000)",
+      },
+      {
+        displayName: "Max Total Wait per Item (ms)",
+        name: "maxItemWaitMs",
+        type: "number",
+        default: 0,
+        typeOptions: { minValue: 0 },
+        description:
+          "Fail the item when the next throttle wait would exceed this total for the item (0 = unlimited)",
+      },
+      {
+        displayName: "Max Total Wait per Execution (ms)",
+        name: "maxExecutionWaitMs",
+        type: "number",
+        default: 0,
+        typeOptions: { minValue: 0 },
+        description:
+          "Fail the item when the next throttle wait would exceed this total for the whole execution (0 = unlimited)",
+      },
+      {
+        displayName: "Retry on Connection Errors",
+        name: "retryConnectionErrors",
+        type: "boolean",
+        default: false,
+        description:
+          "Whether to retry requests that fail without a response (connection reset, timeout, …) using the backoff strategy",
+      },
+      {
+        displayName: "Connection Error Codes",
+        name: "connectionErrorCodes",
+        type: "string",
+        default: DEFAULT_CONNECTION_ERROR_CODES.join(", "),
+        description:
+          "Comma-separated error codes or message fragments that count as connection errors",
+        displayOptions: { show: { retryConnectionErrors: [true] } },
+      },
+      {
+        displayName: "Max Connection Retries",
+        name: "maxConnectionRetries",
+        type: "number",
+        default: 3,
+        typeOptions: { minValue: 0 },
+        description: "Maximum number of retries after connection errors",
+        displayOptions: { show: { retryConnectionErrors: [true] } },
+      },
+      {
+        displayName: "Retry Non-Idempotent Methods",
+        name: "connectionRetryAllMethods",
+        type: "boolean",
+        default: false,
+        description:
+          "Whether to retry POST and PATCH after connection errors as well. The server may already have processed the request.",
+        displayOptions: { show: { retryConnectionErrors: [true] } },
+      },
+      {
+        displayName: "Retry Policy by Method",
+        name: "methodRetryPolicy",
+        type: "options",
+        default: "safe",
+        description: "Which requests may be sent again after a throttle response",
+        options: [
+          {
+            name: "Safe",
+            value: "safe",
+            description:
+              "GET, HEAD, PUT, DELETE always; POST and PATCH only on 429 or with an idempotency key",
+          },
+          {
+            name: "All Methods",
+            value: "all",
+            description: "Retry every method. A POST answered with 503 may be processed twice.",
+          },
+        ],
+      },
+      {
+        displayName: "Add Idempotency Key",
+        name: "idempotencyKey",
+        type: "boolean",
+        default: false,
+        description:
+          "Whether to send a generated key with POST and PATCH requests. The key stays the same for all retries of a request, so they can be retried safely.",
+      },
+      {
+        displayName: "Idempotency Key Header",
+        name: "idempotencyKeyHeader",
+        type: "string",
+        default: DEFAULT_IDEMPOTENCY_KEY_HEADER,
+        description: "Header the key is sent in",
+        displayOptions: { show: { idempotencyKey: [true] } },
+      },
+      {
+        displayName: "Provider Profile",
+        name: "provider",
+        type: "options",
+        default: "auto",
+        description:
+          "Vendor-specific rate-limit headers to understand in addition to the standard ones",
+        options: [
+          {
+            name: "Auto-Detect by Host",
+            value: "auto",
+            description: "Pick the matching profile from the request URL's host",
+          },
+          {
+            name: "None (Standard Headers Only)",
+            value: "none",
+          },
+          ...PROVIDER_PROFILES.map((p) => ({ name: p.name, value: p.id })),
+        ],
+      },
+      {
+        displayName: "Custom Rate-Limit Headers",
+        name: "customHeaders",
+        type: "fixedCollection",
+        typeOptions: { multipleValues: true },
+        default: {},
+        placeholder: "Add Header Mapping",
+        description:
+          "Non-standard headers of your API. They are consulted before the provider profile and the standard headers.",
+        options: [
+          {
+            displayName: "Header Mapping",
+            name: "mappings",
+            values: [
+              {
+                displayName: "Header Name",
+                name: "header",
+                type: "string",
+                default: "",
+                placeholder: "X-Quota-Wait",
+              },
+              {
+                displayName: "Meaning",
+                name: "role",
+                type: "options",
+                default: "retryAfter",
+                options: [
+                  {
+                    name: "Retry After",
+                    value: "retryAfter",
+                    description: "How long to wait before retrying",
+                  },
+                  {
+                    name: "Remaining",
+                    value: "remaining",
+                    description: "Requests left in the current window",
+                  },
+                  {
+                    name: "Reset",
+                    value: "reset",
+                    description: "When the quota is replenished",
+                  },
+                ],
+              },
+              {
+                displayName: "Unit",
+                name: "unit",
+                type: "options",
+                default: "seconds",
+                displayOptions: { hide: { role: ["remaining"] } },
+                options: [
+                  { name: "Seconds", value: "seconds" },
+                  { name: "Milliseconds", value: "milliseconds" },
+                  { name: "Epoch Seconds", value: "epochSeconds" },
+                  { name: "Epoch Milliseconds", value: "epochMilliseconds" },
+                  { name: "HTTP-Date", value: "httpDate" },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: "Throttle Body Rules",
+        name: "bodyRules",
+        type: "fixedCollection",
+        typeOptions: { multipleValues: true },
+        default: {},
+        placeholder: "Add Body Rule",
+        description:
+          "Treat responses as throttled when their JSON body matches, regardless of the status code (e.g. GraphQL errors sent with 200)",
+        options: [
+          {
+            displayName: "Rule",
+            name: "rules",
+            values: [
+              {
+                displayName: "Match Path",
+                name: "matchPath",
+                type: "string",
+                default: "",
+                placeholder: "errors[*].extensions.code",
+                description: "Dot path into the response body. [*] visits every array element.",
+              },
+              {
+                displayName: "Match Value",
+                name: "matchValue",
+                type: "string",
+                default: "",
+                placeholder: "THROTTLED",
+                description: "Value that marks the response as throttled. Empty = any value at the path.",
+              },
+              {
+                displayName: "Wait Time Path",
+                name: "waitPath",
+                type: "string",
+                default: "",
+                placeholder: "error.retry_after",
+                description:
+                  "Optional dot path to the wait time in the body. Empty = use the response headers.",
+              },
+              {
+                displayName: "Wait Time Unit",
+                name: "waitUnit",
+                type: "options",
+                default: "seconds",
+                options: [
+                  { name: "Seconds", value: "seconds" },
+                  { name: "Milliseconds", value: "milliseconds" },
+                  { name: "Epoch Seconds", value: "epochSeconds" },
+                  { name: "Epoch Milliseconds", value: "epochMilliseconds" },
+                  { name: "HTTP-Date", value: "httpDate" },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: "URL Rules",
+        name: "urlRules",
+        type: "fixedCollection",
+        typeOptions: { multipleValues: true, sortable: true },
+        default: {},
+        placeholder: "Add URL Rule",
+        description:
+          "Different throttle settings per host or URL. The first matching rule wins; empty or 0 fields keep the settings above.",
+        options: [
+          {
+            displayName: "Rule",
+            name: "rules",
+            values: [
+              {
+                displayName: "Match",
+                name: "match",
+                type: "options",
+                default: "host",
+                options: [
+                  { name: "Host", value: "host", description: "Host name, * as wildcard" },
+                  { name: "URL Glob", value: "glob", description: "Full URL, * = any characters, ? = one character" },
+                  { name: "URL Regex", value: "regex", description: "Full URL, regular expression" },
+                ],
+              },
+              {
+                displayName: "Pattern",
+                name: "pattern",
+                type: "string",
+                default: "",
+                placeholder: "*.myshopify.com",
+              },
+              {
+                displayName: "HTTP Codes",
+                name: "throttleCodes",
+                type: "multiOptions",
+                default: [],
+                description: "Status codes that trigger throttling for matching URLs",
+                options: [
+                  { name: "429 Too Many Requests", value: "429" },
+                  { name: "503 Service Unavailable", value: "503" },
+                  { name: "504 Gateway Timeout", value: "504" },
+                ],
+              },
+              {
+                displayName: "Default Wait Time (ms)",
+                name: "defaultWaitMs",
+                type: "number",
+                default: 0,
+                typeOptions: { minValue: 0 },
+              },
+              {
+                displayName: "Max Throttle Retries",
+                name: "maxThrottleTries",
+                type: "number",
+                default: 0,
+                typeOptions: { minValue: 0 },
+              },
+              {
+                displayName: "Max Single Wait (ms)",
+                name: "maxWaitMs",
+                type: "number",
+                default: 0,
+                typeOptions: { minValue: 0 },
+              },
+              {
+                displayName: "Backoff Strategy",
+                name: "backoffStrategy",
+                type: "options",
+                default: "",
+                options: [
+                  { name: "Node Setting", value: "" },
+                  { name: "Fixed", value: "fixed" },
+                  { name: "Linear", value: "linear" },
+                  { name: "Exponential", value: "exponential" },
+                  { name: "Full Jitter", value: "fullJitter" },
+                  { name: "Decorrelated Jitter", value: "decorrelatedJitter" },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: "Requests per Interval",
+        name: "requestsPerInterval",
+        type: "number",
+        default: 0,
+        description:
+          "Proactively pace requests to at most N per interval so the API never has to reject them (0 = disabled, only react to throttle responses)",
+      },
+      {
+        displayName: "Interval (ms)",
+        name: "intervalMs",
+        type: "number",
+        default: 1_000,
+        description:
+          "Length of the interval for Requests per Interval, in milliseconds",
+      },
+      {
+        displayName: "Burst Size",
+        name: "burstSize",
+        type: "number",
+        default: 0,
+        description:
+          "Number of requests that may be sent back-to-back before pacing kicks in (0 = same as Requests per Interval)",
+      },
+      {
+        displayName: "Max Concurrent Requests",
+        name: "maxConcurrent",
+        type: "number",
+        default: 0,
+        typeOptions: { minValue: 0 },
+        description:
+          "Maximum number of requests in flight at the same time (0 = unlimited). Shared across executions when a rate-limit bucket is set.",
+      },
+      {
+        displayName: "Circuit Breaker Threshold",
+        name: "circuitBreakerThreshold",
+        type: "number",
+        default: 0,
+        typeOptions: { minValue: 0 },
+        description:
+          "Consecutive failed requests to a host (throttle retries exhausted or connection errors) after which further requests to it fail immediately (0 = disabled)",
+      },
+      {
+        displayName: "Circuit Breaker Cool-Down (ms)",
+        name: "circuitBreakerCooldownMs",
+        type: "number",
+        default: 60_000,
+        typeOptions: { minValue: 0 },
+        description:
+          "How long requests to the host fail fast before a single probe request tests whether it has recovered",
+      },
+      {
+        displayName: "Slow Down Below Remaining",
+        name: "slowdownThreshold",
+        type: "number",
+        default: 0,
+        description:
+          "When a successful response reports fewer remaining requests than this (X-RateLimit-Remaining etc.), spread the rest of the quota evenly until the window resets (0 = disabled)",
+      },
+      {
+        displayName: "Pace Pagination by Rate-Limit Headers",
+        name: "paginationPacing",
+        type: "boolean",
+        default: false,
+        description:
+          "Whether to wait between the pages of the Pagination option so that the remaining quota reported by the last page is spread evenly until the window resets. Adapts to the API instead of a fixed Interval Between Requests.",
+      },
+      {
+        displayName: "Rate-Limit Bucket",
+        name: "bucketScope",
+        type: "options",
+        default: "none",
+        description:
+          "Share rate-limit state with other items, executions and workflows in this n8n process. Once one of them is throttled, all others using the same bucket pause until the reset too.",
+        options: [
+          {
+            name: "None (This Execution Only)",
+            value: "none",
+          },
+          {
+            name: "Per Host",
+            value: "host",
+            description: "All requests to the same host share one bucket",
+          },
+          {
+            name: "Per Credential",
+            value: "credential",
+            description: "All requests using the same credential share one bucket",
+          },
+          {
+            name: "Custom Key",
+            value: "custom",
+            description: "All requests using the same user-defined key share one bucket",
+          },
+        ],
+      },
+      {
+        displayName: "Bucket Key",
+        name: "bucketKey",
+        type: "string",
+        default: "",
+        placeholder: "hubspot-portal-1234",
+        description:
+          "Name of the shared bucket. Nodes that use the same key share their rate-limit state.",
+        displayOptions: { show: { bucketScope: ["custom"] } },
+      },
+      {
+        displayName: "Bucket Store",
+        name: "throttleStore",
+        type: "options",
+        default: "default",
+        description:
+          "Where shared rate-limit buckets are kept. Use Redis in queue mode so all workers share one quota.",
+        options: [
+          {
+            name: "Default (Environment)",
+            value: "default",
+            description:
+              "Redis if the environment variable N8N_THROTTLE_STORE is set to 'redis', otherwise in-memory",
+          },
+          {
+            name: "In-Memory (This n8n Process)",
+            value: "memory",
+          },
+          {
+            name: "Redis (All Workers)",
+            value: "redis",
+          },
+        ],
+      },
+      {
+        displayName: "Redis URL",
+        name: "redisUrl",
+        type: "string",
+        default: "",
+        placeholder: "redis://localhost:6379",
+        description:
+          "Connection URL of the Redis store. Empty = environment variable N8N_THROTTLE_REDIS_URL, then redis://localhost:6379.",
+        displayOptions: { show: { throttleStore: ["default", "redis"] } },
+      },
+      {
+        displayName: "Add Throttling Metadata",
+        name: "includeMetadata",
+        type: "boolean",
+        default: false,
+        description:
+          "Whether to add a $throttling object to each output item with the attempts, total wait, last status, wait source and remaining quota",
+      },
+      {
+        displayName: "Event Log File",
+        name: "eventLogFile",
+        type: "string",
+        default: "",
+        placeholder: "/var/log/n8n/throttle-events.jsonl",
+        description:
+          "Append structured throttling events (throttle-start, wait, retry, exhausted, circuit-open) as JSON lines to this file. Empty = no event log.",
+      },
+      {
+        displayName: "Simulate (Dry Run)",
+        name: "simulate",
+        type: "boolean",
+        default: false,
+        description:
+          "Whether to replay the scripted responses below through the throttling logic on a virtual clock instead of sending requests. Outputs the timeline of waits and outcomes per item.",
+      },
+      {
+        displayName: "Simulated Responses",
+        name: "simulationResponses",
+        type: "json",
+        default:
+          '[\n  { "status": 429, "headers": { "Retry-After": "2" } },\n  { "status": 429, "headers": { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "5" } },\n  { "status": 200 }\n]',
+        description:
+          "JSON array of responses served one per attempt: { status, headers, body, latencyMs }. After the last one, every request succeeds with 200.",
+        displayOptions: { show: { simulate: [true] } },
+      },
     ],
   },
 ];
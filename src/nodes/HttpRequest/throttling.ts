@@ -1,10 +1,22 @@
 // nodes/HttpRequest/throttling.ts
 
+import type { ProviderProfile } from "./providers";
+
 // ── Konstanten ────────────────────────────────────────────────────────────────
 
-/** Sicherheits-Cap: Server-Angaben über 5 Minuten werden auf diesen Wert begrenzt */
+/**
+ * Default-Sicherheits-Cap: Server-Angaben über 5 Minuten werden auf diesen
+ * Wert begrenzt. Über `maxWaitMs` in den Optionen konfigurierbar.
+ */
 export const MAX_THROTTLE_WAIT_MS = 300_000;
 
+/** Header-Keys für das verbleibende Kontingent, in Prioritätsreihenfolge */
+const REMAINING_HEADER_KEYS = [
+  "x-ratelimit-remaining",
+  "x-hubspot-ratelimit-remaining",
+  "ratelimit-remaining",
+];
+
 // ── Header-Normalisierung ─────────────────────────────────────────────────────
 
 /**
@@ -80,7 +92,7 @@ export function parseRetryAfterToMs(v: string): number | null {
  * Heuristik für den Timestamp-Typ:
  *   > 10^12  → Milliseconds (moderner POSIX-ms)
  *   > 10^9   → Seconds (klassischer Unix-Timestamp)
- *   sonst    → Seconds (Fallback)
+ *   sonst    → Delta-Sekunden bis zum Reset (IETF RateLimit-Reset: "30")
  */
 export function parseResetToWaitMs(
   h: Record<string, string>
@@ -91,71 +103,576 @@ export function parseResetToWaitMs(
     "ratelimit-reset",
   ]);
   if (reset === null) return null;
+  if (reset <= 1_000_000_000) return Math.max(0, reset) * 1000;
 
   const tsMs = reset > 1_000_000_000_000 ? reset : reset * 1000;
   const delta = tsMs - Date.now();
   return delta > 0 ? delta : 0;
 }
 
+// ── IETF RateLimit Structured Fields ──────────────────────────────────────────
+//
+// draft-ietf-httpapi-ratelimit-headers:
+//   RateLimit:        "default";r=0;t=30, "daily";r=950;t=3600
+//   RateLimit-Policy: "default";q=100;w=60, "daily";q=1000;w=86400
+// Ältere Drafts nutzen ein Dictionary:
+//   RateLimit:        limit=100, remaining=0, reset=30
+
+/** Eine benannte Rate-Limit-Policy aus RateLimit / RateLimit-Policy */
+export interface RateLimitPolicy {
+  /** Policy-Name, z.B. "default" oder "burst" */
+  name: string;
+  /** Verbleibendes Kontingent (r) */
+  remaining: number | null;
+  /** Sekunden bis zum Reset (t) */
+  resetSec: number | null;
+  /** Größe des Kontingents (q, aus RateLimit-Policy) */
+  quota: number | null;
+  /** Fensterlänge in Sekunden (w, aus RateLimit-Policy) */
+  windowSec: number | null;
+}
+
+interface StructuredItem {
+  value: string;
+  params: Record<string, string>;
+}
+
+/** Splittet an `sep`, ignoriert aber Trennzeichen innerhalb von "…" */
+function splitOutsideQuotes(v: string, sep: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < v.length; i++) {
+    const c = v[i];
+    if (quoted && c === "\\") {
+      current += c + (v[++i] ?? "");
+      continue;
+    }
+    if (c === '"') quoted = !quoted;
+    if (c === sep && !quoted) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += c;
+  }
+  parts.push(current);
+  return parts.map((p) => p.trim()).filter((p) => p.length > 0);
+}
+
+function unquote(v: string): string {
+  const t = v.trim();
+  return t.startsWith('"') && t.endsWith('"') && t.length >= 2
+    ? t.slice(1, -1).replace(/\\(.)/g, "$1")
+    : t;
+}
+
+/**
+ * Parst eine Structured-Field-Liste (RFC 8941) in Items mit Parametern.
+ * Parameter ohne Wert erhalten den Wert "?1" (Boolean true).
+ */
+export function parseStructuredList(v: string): StructuredItem[] {
+  return splitOutsideQuotes(v, ",").map((member) => {
+    const [value, ...rawParams] = splitOutsideQuotes(member, ";");
+    const params: Record<string, string> = {};
+    for (const p of rawParams) {
+      const eq = p.indexOf("=");
+      if (eq === -1) params[p.toLowerCase()] = "?1";
+      else params[p.slice(0, eq).trim().toLowerCase()] = unquote(p.slice(eq + 1));
+    }
+    return { value: value ?? "", params };
+  });
+}
+
+function toInt(v: string | undefined): number | null {
+  if (v === undefined) return null;
+  const n = parseInt(v, 10);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Liest alle Policies aus den Headern RateLimit und RateLimit-Policy.
+ * Policies werden über ihren Namen zusammengeführt.
+ */
+export function parseRateLimitPolicies(
+  h: Record<string, string>
+): RateLimitPolicy[] {
+  const byName = new Map<string, RateLimitPolicy>();
+  const policy = (name: string): RateLimitPolicy => {
+    let p = byName.get(name);
+    if (!p) {
+      p = { name, remaining: null, resetSec: null, quota: null, windowSec: null };
+      byName.set(name, p);
+    }
+    return p;
+  };
+
+  const rl = h["ratelimit"];
+  if (rl) {
+    const items = parseStructuredList(rl);
+    if (items.length > 0 && items.every((i) => /^[a-z-]+=/i.test(i.value))) {
+      // Älteres Dictionary-Format: limit=100, remaining=0, reset=30
+      const dict: Record<string, string> = {};
+      for (const i of items) {
+        const eq = i.value.indexOf("=");
+        dict[i.value.slice(0, eq).toLowerCase()] = i.value.slice(eq + 1);
+      }
+      const p = policy("default");
+      p.remaining = toInt(dict["remaining"]);
+      p.resetSec = toInt(dict["reset"]);
+      p.quota = toInt(dict["limit"]);
+    } else {
+      for (const i of items) {
+        const p = policy(unquote(i.value));
+        p.remaining = toInt(i.params["r"]);
+        p.resetSec = toInt(i.params["t"]);
+      }
+    }
+  }
+
+  const rlp = h["ratelimit-policy"];
+  if (rlp) {
+    for (const i of parseStructuredList(rlp)) {
+      const p = policy(unquote(i.value));
+      p.quota = toInt(i.params["q"]);
+      p.windowSec = toInt(i.params["w"]);
+    }
+  }
+
+  return [...byName.values()];
+}
+
+/**
+ * Wählt die Policy, die uns aktuell limitiert.
+ *
+ *   1. Erschöpfte Policies (r <= 0): die mit dem spätesten Reset
+ *   2. Sonst: die mit dem kleinsten Restanteil r/q (ohne q: kleinstes r)
+ *
+ * Policies ohne Remaining-Angabe werden ignoriert.
+ */
+export function pickLimitingPolicy(
+  policies: RateLimitPolicy[]
+): RateLimitPolicy | null {
+  const known = policies.filter((p) => p.remaining !== null);
+  if (known.length === 0) return null;
+
+  const resetOf = (p: RateLimitPolicy) => p.resetSec ?? p.windowSec ?? 0;
+  const exhausted = known.filter((p) => p.remaining! <= 0);
+  if (exhausted.length > 0) {
+    return exhausted.reduce((a, b) => (resetOf(b) > resetOf(a) ? b : a));
+  }
+
+  const ratio = (p: RateLimitPolicy) =>
+    p.quota && p.quota > 0 ? p.remaining! / p.quota : p.remaining!;
+  return known.reduce((a, b) => (ratio(b) < ratio(a) ? b : a));
+}
+
+/**
+ * Liefert verbleibendes Kontingent und Wartezeit bis zum Reset.
+ *
+ * Reihenfolge: benutzerdefinierte Header → Anbieter-Profil → strukturierte
+ * IETF-Header → flache Header. Spätere Quellen füllen nur Lücken der früheren.
+ */
+export function readQuotaHeaders(
+  h: Record<string, string>,
+  options: HeaderOptions = {}
+): { remaining: number | null; resetMs: number | null } {
+  const custom = readMappedHeaders(h, options.headerMappings ?? []);
+  const vendor = options.profile?.read(h) ?? {};
+  const policy = pickLimitingPolicy(parseRateLimitPolicies(h));
+  // Ohne t ist das Fenster w eine sichere Obergrenze bis zum Reset
+  const policyResetSec = policy ? policy.resetSec ?? policy.windowSec : null;
+
+  return {
+    remaining:
+      custom.remaining ??
+      vendor.remaining ??
+      policy?.remaining ?? firstPresentInt(h, REMAINING_HEADER_KEYS),
+    resetMs:
+      custom.resetMs ??
+      vendor.resetMs ??
+      (policyResetSec !== null
+        ? Math.max(0, policyResetSec) * 1000
+        : parseResetToWaitMs(h)),
+  };
+}
+
+// ── Benutzerdefinierte Header ─────────────────────────────────────────────────
+
+/** Welche Angabe ein benutzerdefinierter Header trägt */
+export type HeaderRole = "retryAfter" | "remaining" | "reset";
+
+/** Einheit eines benutzerdefinierten Zeit-Headers */
+export type HeaderUnit =
+  | "seconds"
+  | "milliseconds"
+  | "epochSeconds"
+  | "epochMilliseconds"
+  | "httpDate";
+
+/** Zuordnung eines nicht-standardisierten Headers zu seiner Bedeutung */
+export interface HeaderMapping {
+  /** Header-Name (Groß-/Kleinschreibung egal) */
+  header: string;
+  role: HeaderRole;
+  /** Für retryAfter/reset; bei remaining ignoriert */
+  unit: HeaderUnit;
+}
+
+/** Zusätzliche Quellen und Cap für die Auswertung der Rate-Limit-Header */
+export interface HeaderOptions {
+  /** Anbieter-Profil (siehe providers.ts) */
+  profile?: ProviderProfile | null;
+  /** Benutzerdefinierte Header, haben Vorrang vor allen anderen Quellen */
+  headerMappings?: HeaderMapping[];
+  /** Obergrenze einer einzelnen Wartezeit (Default: MAX_THROTTLE_WAIT_MS) */
+  maxWaitMs?: number;
+}
+
+/** Optionen für computeWaitMs: Header-Quellen plus Backoff ohne Header-Angabe */
+export interface WaitOptions extends HeaderOptions {
+  /** Backoff statt festem Default; ohne Angabe gilt immer defaultWaitMs */
+  backoff?: BackoffSettings;
+  /** Nummer des Retries, beginnend bei 0 */
+  attempt?: number;
+  /** Vorherige Wartezeit (für decorrelatedJitter) */
+  previousWaitMs?: number;
+}
+
+/**
+ * Wandelt einen Zeit-Header in eine Wartezeit (ms ab jetzt) um.
+ * Vergangene Zeitpunkte ergeben 0, unlesbare Werte null.
+ */
+export function parseTimeValueToMs(v: string, unit: HeaderUnit): number | null {
+  const trimmed = v.trim();
+  if (unit === "httpDate") {
+    const dt = Date.parse(trimmed);
+    return Number.isNaN(dt) ? null : Math.max(0, dt - Date.now());
+  }
+
+  const n = parseFloat(trimmed);
+  if (!Number.isFinite(n)) return null;
+  switch (unit) {
+    case "seconds":
+      return Math.max(0, Math.ceil(n * 1000));
+    case "milliseconds":
+      return Math.max(0, Math.ceil(n));
+    case "epochSeconds":
+      return Math.max(0, Math.ceil(n * 1000 - Date.now()));
+    case "epochMilliseconds":
+      return Math.max(0, Math.ceil(n - Date.now()));
+  }
+}
+
+/**
+ * Liest die benutzerdefinierten Header. Pro Bedeutung gewinnt die erste
+ * Zuordnung, deren Header vorhanden und lesbar ist.
+ */
+export function readMappedHeaders(
+  h: Record<string, string>,
+  mappings: HeaderMapping[]
+): { retryAfterMs: number | null; remaining: number | null; resetMs: number | null } {
+  const out = {
+    retryAfterMs: null as number | null,
+    remaining: null as number | null,
+    resetMs: null as number | null,
+  };
+  for (const m of mappings) {
+    const v = h[m.header.trim().toLowerCase()];
+    if (!v) continue;
+    if (m.role === "remaining") {
+      out.remaining ??= toInt(v);
+    } else if (m.role === "retryAfter") {
+      out.retryAfterMs ??= parseTimeValueToMs(v, m.unit);
+    } else {
+      out.resetMs ??= parseTimeValueToMs(v, m.unit);
+    }
+  }
+  return out;
+}
+
 // ── Kernfunktionen ────────────────────────────────────────────────────────────
 
+function capOf(options: HeaderOptions): number {
+  return options.maxWaitMs !== undefined && options.maxWaitMs > 0
+    ? options.maxWaitMs
+    : MAX_THROTTLE_WAIT_MS;
+}
+
 /**
  * Berechnet die Wartezeit in Millisekunden aus den Response-Headern.
  *
  * Prioritätsreihenfolge:
+ *   0. Explizite Wartezeit aus benutzerdefinierten Headern, dann aus dem
+ *      Anbieter-Profil (z.B. Beta-Retry-After)
  *   1. Retry-After Header (expliziteste Server-Aussage)
  *   2. Remaining = 0 → Reset-Timestamp oder Default
  *   3. Reset-Timestamp allein
- *   4. Konfigurierbarer Default-Wert
+ *   4. Fallback des Anbieter-Profils, sonst Backoff ab dem Default-Wert
  *
- * Das Ergebnis wird auf MAX_THROTTLE_WAIT_MS gecappt.
+ * Remaining und Reset stammen aus den benutzerdefinierten Headern, dem
+ * Anbieter-Profil, den IETF-Headern
+ * RateLimit / RateLimit-Policy (limitierende Policy) oder den flachen Headern.
+ *
+ * Ohne Header-Angabe bestimmt die Backoff-Strategie die Wartezeit anhand
+ * der Versuchsnummer (ohne Strategie: immer defaultWaitMs).
+ *
+ * Das Ergebnis wird auf maxWaitMs (Default MAX_THROTTLE_WAIT_MS) gecappt.
  */
 export function computeWaitMs(
   rawHeaders: Record<string, unknown>,
-  defaultWaitMs: number
+  defaultWaitMs: number,
+  options: WaitOptions = {}
 ): number {
+  return explainWaitMs(rawHeaders, defaultWaitMs, options).waitMs;
+}
+
+/** Woher eine Wartezeit stammt (für die Metadaten an den Output-Items) */
+export type WaitSource =
+  | "customHeader"
+  | "provider"
+  | "retryAfter"
+  | "reset"
+  | "backoff"
+  | "default"
+  | "body"
+  | "connectionError";
+
+export interface WaitDecision {
+  waitMs: number;
+  source: WaitSource;
+}
+
+/** Wie computeWaitMs, liefert zusätzlich die Quelle der Wartezeit */
+export function explainWaitMs(
+  rawHeaders: Record<string, unknown>,
+  defaultWaitMs: number,
+  options: WaitOptions = {}
+): WaitDecision {
   const h = normalizeHeaders(rawHeaders);
-  const cap = (ms: number) => Math.min(ms, MAX_THROTTLE_WAIT_MS);
+  const cap = (ms: number, source: WaitSource): WaitDecision => ({
+    waitMs: Math.min(ms, capOf(options)),
+    source,
+  });
+  const custom = readMappedHeaders(h, options.headerMappings ?? []);
+  const vendor = options.profile?.read(h) ?? {};
+  const fallback = (): WaitDecision => {
+    if (vendor.fallbackWaitMs != null) return cap(vendor.fallbackWaitMs, "provider");
+    if (!options.backoff) return cap(defaultWaitMs, "default");
+    return cap(
+      computeBackoffMs(
+        defaultWaitMs,
+        options.attempt ?? 0,
+        options.backoff,
+        options.previousWaitMs
+      ),
+      options.backoff.strategy === "fixed" ? "default" : "backoff"
+    );
+  };
+
+  // 0) Benutzerdefinierte Header, dann Anbieter-Profil
+  if (custom.retryAfterMs !== null && custom.retryAfterMs > 0) {
+    return cap(custom.retryAfterMs, "customHeader");
+  }
+  if (vendor.retryAfterMs != null && vendor.retryAfterMs > 0) {
+    return cap(vendor.retryAfterMs, "provider");
+  }
 
   // 1) Retry-After
   const ra = h["retry-after"];
   if (ra) {
     const ms = parseRetryAfterToMs(ra);
-    if (ms !== null && ms > 0) return cap(ms);
+    if (ms !== null && ms > 0) return cap(ms, "retryAfter");
   }
 
   // 2) Remaining = 0
-  const remaining = firstPresentInt(h, [
-    "x-ratelimit-remaining",
-    "x-hubspot-ratelimit-remaining",
-    "ratelimit-remaining",
-  ]);
+  const { remaining, resetMs } = readQuotaHeaders(h, options);
   if (remaining !== null && remaining <= 0) {
-    const resetMs = parseResetToWaitMs(h);
-    return cap(resetMs !== null && resetMs > 0 ? resetMs : defaultWaitMs);
+    return resetMs !== null && resetMs > 0 ? cap(resetMs, "reset") : fallback();
   }
 
   // 3) Reset-Timestamp
-  const resetMs = parseResetToWaitMs(h);
-  if (resetMs !== null && resetMs > 0) return cap(resetMs);
+  if (resetMs !== null && resetMs > 0) return cap(resetMs, "reset");
 
   // 4) Fallback
-  return cap(defaultWaitMs);
+  return fallback();
+}
+
+/**
+ * Berechnet den Mindestabstand zum nächsten Request nach einer erfolgreichen
+ * Response, bevor das Kontingent komplett aufgebraucht ist.
+ *
+ * Fällt das verbleibende Kontingent unter die Schwelle, wird die Zeit bis
+ * zum Reset gleichmäßig auf die restlichen Requests verteilt, statt bis
+ * zum 429 weiterzulaufen und dann das ganze Fenster abzuwarten.
+ *
+ * @param rawHeaders Response-Header der erfolgreichen Response
+ * @param threshold  Schwelle für das verbleibende Kontingent (0 = deaktiviert)
+ * @param options    Anbieter-Profil und benutzerdefinierte Header
+ * @returns Abstand in Millisekunden, 0 wenn keine Verlangsamung nötig ist
+ */
+export function computeSlowdownMs(
+  rawHeaders: Record<string, unknown>,
+  threshold: number,
+  options: HeaderOptions = {}
+): number {
+  if (!(threshold > 0)) return 0;
+
+  const { remaining, resetMs } = readQuotaHeaders(normalizeHeaders(rawHeaders), options);
+  if (remaining === null || remaining >= threshold) return 0;
+  if (resetMs === null || resetMs <= 0) return 0;
+
+  return Math.min(resetMs / (Math.max(0, remaining) + 1), capOf(options));
+}
+
+/**
+ * Berechnet die Pause vor der nächsten Seite einer Pagination.
+ *
+ * Wie `computeSlowdownMs`, aber ohne Schwelle: das gemeldete Restkontingent
+ * wird immer gleichmäßig bis zum Reset verteilt. Bei viel Kontingent ist die
+ * Pause kurz, kurz vor dem Limit entsprechend länger.
+ *
+ * @param rawHeaders Response-Header der letzten Seite
+ * @param options    Anbieter-Profil und benutzerdefinierte Header
+ * @returns Pause in Millisekunden, 0 wenn die Header kein Kontingent nennen
+ */
+export function computePageDelayMs(
+  rawHeaders: Record<string, unknown>,
+  options: HeaderOptions = {}
+): number {
+  return computeSlowdownMs(rawHeaders, Infinity, options);
 }
 
+// ── Backoff & Jitter ──────────────────────────────────────────────────────────
+
 /**
- * Wendet einen gleichverteilten Jitter auf die Wartezeit an.
+ * Art der Zufallsstreuung:
+ *   percent      → ±jitterPct um den Basiswert
+ *   full         → gleichverteilt zwischen 0 und dem Basiswert
+ *   decorrelated → gleichverteilt zwischen Basiswert und 3 × vorheriger Wartezeit
+ *
+ * "full" und "decorrelated" entsprechen "Full Jitter" und "Decorrelated Jitter"
+ * aus dem AWS Architecture Blog ("Exponential Backoff And Jitter").
+ */
+export type JitterMode = "percent" | "full" | "decorrelated";
+
+/**
+ * Wendet Jitter auf die Wartezeit an.
  *
  * Zweck: Thundering-Herd verhindern, wenn viele parallele Executions
  *        gleichzeitig nach einem 429 wiederanlaufen.
  *
- * @param baseMs    Basiswert in Millisekunden
- * @param jitterPct Maximale Abweichung in Prozent (0–100)
+ * @param baseMs     Basiswert in Millisekunden
+ * @param jitterPct  Maximale Abweichung in Prozent (0–100), nur für "percent"
+ * @param mode       Art der Streuung (Default: percent)
+ * @param previousMs Vorherige Wartezeit, nur für "decorrelated"
  * @returns Jitter-behafteter Wert, niemals negativ
  */
-export function applyJitter(baseMs: number, jitterPct: number): number {
+export function applyJitter(
+  baseMs: number,
+  jitterPct: number,
+  mode: JitterMode = "percent",
+  previousMs: number = baseMs
+): number {
+  if (mode === "full") {
+    return Math.max(0, Math.random() * baseMs);
+  }
+  if (mode === "decorrelated") {
+    const upper = Math.max(baseMs, previousMs * 3);
+    return Math.max(0, baseMs + Math.random() * (upper - baseMs));
+  }
+
   const pct = Math.max(0, Math.min(100, jitterPct));
   const variance = baseMs * (pct / 100);
   const jitter = (Math.random() * 2 - 1) * variance;
   return Math.max(0, baseMs + jitter);
 }
+
+/** Backoff-Strategie, wenn die Header keine Wartezeit vorgeben */
+export type BackoffStrategy =
+  | "fixed"
+  | "linear"
+  | "exponential"
+  | "fullJitter"
+  | "decorrelatedJitter";
+
+export interface BackoffSettings {
+  strategy: BackoffStrategy;
+  /** Faktor pro Versuch für exponential und fullJitter */
+  multiplier: number;
+  /** Obergrenze der Backoff-Wartezeit in ms (<= 0 → MAX_THROTTLE_WAIT_MS) */
+  maxMs: number;
+}
+
+/**
+ * Berechnet die Backoff-Wartezeit für einen Versuch.
+ *
+ *   fixed              → base
+ *   linear             → base × (attempt + 1)
+ *   exponential        → base × multiplier^attempt
+ *   fullJitter         → zufällig in [0, base × multiplier^attempt]
+ *   decorrelatedJitter → zufällig in [base, 3 × previousMs]
+ *
+ * Nur die wachsenden Strategien werden auf `settings.maxMs` gekappt; fixed
+ * wartet immer genau die Basis-Wartezeit (die Obergrenze ist dort ausgeblendet).
+ *
+ * @param baseMs     Basis-Wartezeit (Default-Wartezeit des Nodes)
+ * @param attempt    Nummer des Retries, beginnend bei 0
+ * @param settings   Strategie, Multiplikator und Obergrenze
+ * @param previousMs Vorherige Wartezeit (nur decorrelatedJitter)
+ */
+export function computeBackoffMs(
+  baseMs: number,
+  attempt: number,
+  settings: BackoffSettings,
+  previousMs: number = baseMs
+): number {
+  const ceiling = settings.maxMs > 0 ? settings.maxMs : MAX_THROTTLE_WAIT_MS;
+  const n = Math.max(0, attempt);
+  const exponential = () => baseMs * Math.pow(Math.max(1, settings.multiplier), n);
+
+  switch (settings.strategy) {
+    case "linear":
+      return Math.min(ceiling, baseMs * (n + 1));
+    case "exponential":
+      return Math.min(ceiling, exponential());
+    case "fullJitter":
+      return applyJitter(Math.min(ceiling, exponential()), 0, "full");
+    case "decorrelatedJitter":
+      return Math.min(ceiling, applyJitter(baseMs, 0, "decorrelated", previousMs));
+    default:
+      return baseMs;
+  }
+}
+
+/** Quellen, deren Wartezeit aus computeBackoffMs stammt */
+const BACKOFF_SOURCES: ReadonlySet<WaitSource> = new Set(["backoff", "default", "connectionError"]);
+
+/**
+ * Streut eine berechnete Wartezeit um ±jitterPct.
+ *
+ * Backoff-Wartezeiten von fullJitter und decorrelatedJitter sind bereits
+ * zufällig verteilt und bleiben unverändert — ein zweiter Jitter würde die
+ * Verteilung verfälschen. Backoff-Wartezeiten der wachsenden Strategien werden
+ * nach dem Jitter wieder auf die Backoff-Obergrenze gekappt; fixed sowie aus
+ * Headern oder dem Body stammende Wartezeiten nicht.
+ *
+ * @param waitMs    Wartezeit vor dem Jitter
+ * @param source    Herkunft der Wartezeit
+ * @param jitterPct Maximale Abweichung in Prozent (0–100)
+ * @param backoff   Backoff-Einstellungen der Wartezeit
+ */
+export function jitterWaitMs(
+  waitMs: number,
+  source: WaitSource,
+  jitterPct: number,
+  backoff: BackoffSettings
+): number {
+  if (!BACKOFF_SOURCES.has(source) || backoff.strategy === "fixed") {
+    return applyJitter(waitMs, jitterPct);
+  }
+  const ceiling = backoff.maxMs > 0 ? backoff.maxMs : MAX_THROTTLE_WAIT_MS;
+  const randomized =
+    backoff.strategy === "fullJitter" || backoff.strategy === "decorrelatedJitter";
+  return Math.min(ceiling, randomized ? waitMs : applyJitter(waitMs, jitterPct));
+}
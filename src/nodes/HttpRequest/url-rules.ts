@@ -0,0 +1,118 @@
+import type { BackoffStrategy } from "./throttling";
+import type { ThrottleConfig } from "./throttle-wrapper";
+
+/**
+ * How a rule's pattern is compared:
+ *   host  → host name without port, `*` wildcards allowed (e.g. "*.myshopify.com")
+ *   glob  → full URL, `*` = any characters, `?` = one character
+ *   regex → full URL, JavaScript regular expression (unanchored)
+ */
+export type UrlRuleMatch = "host" | "glob" | "regex";
+
+/** Settings a rule replaces; absent fields keep the node's setting */
+export interface UrlRuleOverrides {
+  codes?: Set<string>;
+  defaultWaitMs?: number;
+  maxRetries?: number;
+  maxWaitMs?: number;
+  backoffStrategy?: BackoffStrategy;
+}
+
+export interface UrlRule {
+  match: UrlRuleMatch;
+  pattern: string;
+  /** Compiled pattern */
+  test: RegExp;
+  overrides: UrlRuleOverrides;
+}
+
+/** A rule as entered in the node parameters */
+export interface UrlRuleParams {
+  match?: UrlRuleMatch;
+  pattern?: string;
+  throttleCodes?: string[];
+  defaultWaitMs?: number;
+  maxThrottleTries?: number;
+  maxWaitMs?: number;
+  backoffStrategy?: BackoffStrategy | "";
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((c) => (c === "*" ? ".*" : c === "?" ? "." : c.replace(/[.+^${}()|[\]\\/]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Compiles the rule list from the node parameters. Rules without a pattern
+ * are skipped; empty or 0 settings keep the node's setting. Throws with a
+ * readable message when a regular expression is invalid.
+ */
+export function parseUrlRules(rules: UrlRuleParams[]): UrlRule[] {
+  return rules
+    .filter((r) => r.pattern?.trim())
+    .map((r, i) => {
+      const pattern = r.pattern!.trim();
+      const match = r.match ?? "host";
+      let test: RegExp;
+      if (match === "regex") {
+        try {
+          test = new RegExp(pattern);
+        } catch (err) {
+          throw new Error(`URL rule ${i + 1}: invalid regular expression: ${(err as Error).message}`);
+        }
+      } else {
+        test = globToRegExp(pattern);
+      }
+
+      const overrides: UrlRuleOverrides = {};
+      if (r.throttleCodes?.length) overrides.codes = new Set(r.throttleCodes.map(String));
+      if (r.defaultWaitMs) overrides.defaultWaitMs = r.defaultWaitMs;
+      if (r.maxThrottleTries) overrides.maxRetries = Math.max(1, r.maxThrottleTries);
+      if (r.maxWaitMs) overrides.maxWaitMs = r.maxWaitMs;
+      if (r.backoffStrategy) overrides.backoffStrategy = r.backoffStrategy;
+      return { match, pattern, test, overrides };
+    });
+}
+
+/** Host name of a URL without the port, lower-cased; null when unparseable */
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/** First rule matching the URL, or null */
+export function matchUrlRule(rules: UrlRule[], url: string | undefined): UrlRule | null {
+  if (!url) return null;
+  for (const rule of rules) {
+    const subject = rule.match === "host" ? hostnameOf(url) : url;
+    if (subject && rule.test.test(subject)) return rule;
+  }
+  return null;
+}
+
+/**
+ * The settings for a request to `url`: the node's settings with the first
+ * matching rule's overrides applied. The copy shares all state (budgets,
+ * stores, metadata) with `config`; without a matching rule `config` itself
+ * is returned.
+ */
+export function configForUrl(config: ThrottleConfig, url: string | undefined): ThrottleConfig {
+  const rule = matchUrlRule(config.urlRules, url);
+  if (!rule) return config;
+
+  const { codes, defaultWaitMs, maxRetries, maxWaitMs, backoffStrategy } = rule.overrides;
+  return {
+    ...config,
+    codes: codes ?? config.codes,
+    defaultWaitMs: defaultWaitMs ?? config.defaultWaitMs,
+    maxRetries: maxRetries ?? config.maxRetries,
+    maxWaitMs: maxWaitMs ?? config.maxWaitMs,
+    backoff: backoffStrategy ? { ...config.backoff, strategy: backoffStrategy } : config.backoff,
+  };
+}
@@ -0,0 +1,9 @@
+import { createThrottledNode } from "../HttpRequest/throttled-node";
+import { nodeBaseModules } from "../HttpRequest/node-loader";
+
+export class HubspotThrottled extends createThrottledNode({
+  name: "hubspotThrottled",
+  displayName: "HubSpot (Throttled)",
+  baseName: "HubSpot",
+  modules: nodeBaseModules("Hubspot/Hubspot.node", "Hubspot"),
+}) {}
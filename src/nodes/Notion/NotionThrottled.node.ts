@@ -0,0 +1,9 @@
+import { createThrottledNode } from "../HttpRequest/throttled-node";
+import { nodeBaseModules } from "../HttpRequest/node-loader";
+
+export class NotionThrottled extends createThrottledNode({
+  name: "notionThrottled",
+  displayName: "Notion (Throttled)",
+  baseName: "Notion",
+  modules: nodeBaseModules("Notion/Notion.node", "Notion"),
+}) {}
@@ -0,0 +1,9 @@
+import { createThrottledNode } from "../HttpRequest/throttled-node";
+import { nodeBaseModules } from "../HttpRequest/node-loader";
+
+export class ShopifyThrottled extends createThrottledNode({
+  name: "shopifyThrottled",
+  displayName: "Shopify (Throttled)",
+  baseName: "Shopify",
+  modules: nodeBaseModules("Shopify/Shopify.node", "Shopify"),
+}) {}
@@ -0,0 +1,84 @@
+// test/body-rules.test.ts
+
+import {
+  parseJsonBody,
+  valuesAtPath,
+  detectBodyThrottle,
+  type BodyThrottleRule,
+} from "../src/nodes/HttpRequest/body-rules";
+
+const rule = (overrides: Partial<BodyThrottleRule> = {}): BodyThrottleRule => ({
+  matchPath: "errors[*].extensions.code",
+  matchValue: "THROTTLED",
+  waitPath: "",
+  waitUnit: "seconds",
+  ...overrides,
+});
+
+// ── parseJsonBody ─────────────────────────────────────────────────────────────
+
+describe("parseJsonBody", () => {
+  it("parst Buffer und Strings mit JSON", () => {
+    expect(parseJsonBody(Buffer.from('{"a":1}'))).toEqual({ a: 1 });
+    expect(parseJsonBody('  [1,2]')).toEqual([1, 2]);
+  });
+
+  it("reicht Objekte unverändert durch", () => {
+    const body = { a: 1 };
+    expect(parseJsonBody(body)).toBe(body);
+  });
+
+  it("gibt undefined für Nicht-JSON zurück", () => {
+    expect(parseJsonBody("<html>")).toBeUndefined();
+    expect(parseJsonBody("{kaputt")).toBeUndefined();
+    expect(parseJsonBody(undefined)).toBeUndefined();
+  });
+});
+
+// ── valuesAtPath ──────────────────────────────────────────────────────────────
+
+describe("valuesAtPath", () => {
+  const body = { errors: [{ code: "A" }, { code: "B" }], meta: { wait: 3 } };
+
+  it("löst Punkt-Pfade, Indizes und $-Präfix auf", () => {
+    expect(valuesAtPath(body, "meta.wait")).toEqual([3]);
+    expect(valuesAtPath(body, "$.errors[1].code")).toEqual(["B"]);
+  });
+
+  it("durchläuft Arrays mit [*] und implizit", () => {
+    expect(valuesAtPath(body, "errors[*].code")).toEqual(["A", "B"]);
+    expect(valuesAtPath(body, "errors.code")).toEqual(["A", "B"]);
+  });
+
+  it("liefert ein leeres Array für fehlende Pfade", () => {
+    expect(valuesAtPath(body, "errors[*].missing")).toEqual([]);
+    expect(valuesAtPath(null, "a.b")).toEqual([]);
+  });
+});
+
+// ── detectBodyThrottle ────────────────────────────────────────────────────────
+
+describe("detectBodyThrottle", () => {
+  const throttled = { errors: [{ extensions: { code: "THROTTLED" } }], retry: { after: 4 } };
+
+  it("erkennt einen passenden Wert", () => {
+    expect(detectBodyThrottle(throttled, [rule()], null)).toEqual({ waitMs: null });
+  });
+
+  it("liest die Wartezeit aus dem Body", () => {
+    expect(
+      detectBodyThrottle(throttled, [rule({ waitPath: "retry.after" })], null)
+    ).toEqual({ waitMs: 4_000 });
+  });
+
+  it("matcht bei leerem Wert jeden vorhandenen Wert", () => {
+    expect(
+      detectBodyThrottle({ error: { rate_limited: true } }, [rule({ matchPath: "error.rate_limited", matchValue: "" })], null)
+    ).not.toBeNull();
+  });
+
+  it("gibt null zurück ohne Treffer oder ohne Regeln", () => {
+    expect(detectBodyThrottle({ data: {} }, [rule()], null)).toBeNull();
+    expect(detectBodyThrottle(throttled, [], null)).toBeNull();
+  });
+});
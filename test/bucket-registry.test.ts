@@ -0,0 +1,45 @@
+// test/bucket-registry.test.ts
+
+import type { Logger } from "n8n-workflow";
+import { resolveBucketKey, getThrottleStore } from "../src/nodes/HttpRequest/bucket-registry";
+
+// ── resolveBucketKey ──────────────────────────────────────────────────────────
+
+describe("resolveBucketKey", () => {
+  it("gibt null zurück ohne Bucket", () => {
+    expect(resolveBucketKey("none", { url: "https://api.example.com/x" })).toBeNull();
+  });
+
+  it("nutzt den Host, case-insensitiv und inkl. Port", () => {
+    expect(resolveBucketKey("host", { url: "https://API.Example.com/v1/a" })).toBe("host:api.example.com");
+    expect(resolveBucketKey("host", { url: "http://localhost:8080/x" })).toBe("host:localhost:8080");
+  });
+
+  it("gibt null zurück bei ungültiger URL", () => {
+    expect(resolveBucketKey("host", { url: "not a url" })).toBeNull();
+  });
+
+  it("nutzt Credential-Typ und -ID", () => {
+    expect(
+      resolveBucketKey("credential", { url: "https://a.example.com", credentialsType: "hubspotApi", credentialId: "7" })
+    ).toBe("credential:hubspotApi:7");
+  });
+
+  it("fällt ohne Credential auf den Host zurück", () => {
+    expect(resolveBucketKey("credential", { url: "https://a.example.com/x" })).toBe("host:a.example.com");
+  });
+
+  it("nutzt den eigenen Schlüssel, leer → kein Bucket", () => {
+    expect(resolveBucketKey("custom", { customKey: " shop-1 " })).toBe("custom:shop-1");
+    expect(resolveBucketKey("custom", { customKey: "  " })).toBeNull();
+  });
+});
+
+// ── getThrottleStore ──────────────────────────────────────────────────────────
+
+describe("getThrottleStore", () => {
+  it("liefert prozessweit denselben In-Memory-Store", () => {
+    const logger = {} as Logger;
+    expect(getThrottleStore("memory", "", logger)).toBe(getThrottleStore("memory", "", logger));
+  });
+});
@@ -0,0 +1,80 @@
+// test/circuit-breaker.test.ts
+
+import { CircuitBreaker, getCircuitBreaker } from "../src/nodes/HttpRequest/circuit-breaker";
+
+const settings = { threshold: 3, cooldownMs: 10_000 };
+
+const openBreaker = (now = 0): CircuitBreaker => {
+  const breaker = new CircuitBreaker();
+  for (let i = 0; i < settings.threshold; i++) breaker.recordFailure(settings, now);
+  return breaker;
+};
+
+// ── CircuitBreaker ────────────────────────────────────────────────────────────
+
+describe("CircuitBreaker", () => {
+  it("lässt Requests im geschlossenen Zustand durch", () => {
+    const breaker = new CircuitBreaker();
+    expect(breaker.admit(settings, 0)).toEqual({ allowed: true, probe: false });
+  });
+
+  it("öffnet erst nach der Schwelle aufeinanderfolgender Fehler", () => {
+    const breaker = new CircuitBreaker();
+    breaker.recordFailure(settings, 0);
+    breaker.recordFailure(settings, 0);
+    expect(breaker.getState()).toBe("closed");
+    breaker.recordFailure(settings, 0);
+    expect(breaker.getState()).toBe("open");
+  });
+
+  it("setzt den Zähler bei Erfolg zurück", () => {
+    const breaker = new CircuitBreaker();
+    breaker.recordFailure(settings, 0);
+    breaker.recordFailure(settings, 0);
+    breaker.recordSuccess();
+    breaker.recordFailure(settings, 0);
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("lehnt Requests während der Abkühlzeit ab", () => {
+    const breaker = openBreaker(1_000);
+    expect(breaker.admit(settings, 4_000)).toEqual({ allowed: false, retryInMs: 7_000 });
+  });
+
+  it("lässt nach der Abkühlzeit genau einen Probe-Request durch", () => {
+    const breaker = openBreaker();
+    expect(breaker.admit(settings, 10_000)).toEqual({ allowed: true, probe: true });
+    expect(breaker.getState()).toBe("halfOpen");
+    expect(breaker.admit(settings, 10_001).allowed).toBe(false);
+  });
+
+  it("schließt nach erfolgreichem Probe-Request", () => {
+    const breaker = openBreaker();
+    breaker.admit(settings, 10_000);
+    breaker.recordSuccess();
+    expect(breaker.admit(settings, 10_001)).toEqual({ allowed: true, probe: false });
+  });
+
+  it("öffnet nach fehlgeschlagenem Probe-Request erneut", () => {
+    const breaker = openBreaker();
+    breaker.admit(settings, 10_000);
+    breaker.recordFailure(settings, 12_000);
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.admit(settings, 15_000)).toEqual({ allowed: false, retryInMs: 7_000 });
+  });
+
+  it("ersetzt einen verlorenen Probe-Request nach einer weiteren Abkühlzeit", () => {
+    const breaker = openBreaker();
+    breaker.admit(settings, 10_000);
+    expect(breaker.admit(settings, 20_000)).toEqual({ allowed: true, probe: true });
+  });
+});
+
+// ── getCircuitBreaker ─────────────────────────────────────────────────────────
+
+describe("getCircuitBreaker", () => {
+  it("liefert pro Host denselben Breaker", () => {
+    expect(getCircuitBreaker("a.example.com")).toBe(getCircuitBreaker("a.example.com"));
+    expect(getCircuitBreaker("a.example.com")).not.toBe(getCircuitBreaker("b.example.com"));
+  });
+});
@@ -0,0 +1,96 @@
+// test/metrics.test.ts
+
+import {
+  countThrottle,
+  countRetry,
+  countExhausted,
+  renderMetrics,
+  resetMetrics,
+  type PromClient,
+} from "../src/nodes/HttpRequest/metrics";
+
+beforeEach(() => resetMetrics());
+
+// ── renderMetrics ─────────────────────────────────────────────────────────────
+
+describe("renderMetrics", () => {
+  it("gibt alle Counter mit HELP und TYPE aus", () => {
+    const text = renderMetrics();
+    expect(text).toContain("# TYPE n8n_http_throttled_throttle_responses_total counter");
+    expect(text).toContain("# HELP n8n_http_throttled_wait_seconds_total");
+  });
+
+  it("zählt pro Label-Kombination", () => {
+    countThrottle("api.example.com", "429");
+    countThrottle("api.example.com", "429");
+    countThrottle("api.example.com", "503");
+    countExhausted("api.example.com", "429");
+
+    const text = renderMetrics();
+    expect(text).toContain('n8n_http_throttled_throttle_responses_total{host="api.example.com",status="429"} 2');
+    expect(text).toContain('n8n_http_throttled_throttle_responses_total{host="api.example.com",status="503"} 1');
+    expect(text).toContain('n8n_http_throttled_exhausted_total{host="api.example.com",status="429"} 1');
+  });
+
+  it("summiert Retries und Wartezeit in Sekunden", () => {
+    countRetry("api.example.com", "429", "retryAfter", 1_500);
+    countRetry("api.example.com", "429", "retryAfter", 500);
+
+    const text = renderMetrics();
+    expect(text).toContain('n8n_http_throttled_retries_total{host="api.example.com",status="429",source="retryAfter"} 2');
+    expect(text).toContain('n8n_http_throttled_wait_seconds_total{host="api.example.com",status="429",source="retryAfter"} 2');
+  });
+
+  it("escaped Label-Werte", () => {
+    countThrottle('a"b', "429");
+    expect(renderMetrics()).toContain('host="a\\"b"');
+  });
+});
+
+// ── bridgeMetrics ─────────────────────────────────────────────────────────────
+
+describe("bridgeMetrics", () => {
+  // Frisches Modul je Test: die Brücke wird nur einmal pro Prozess aufgebaut
+  const loadMetrics = () => {
+    let metrics!: typeof import("../src/nodes/HttpRequest/metrics");
+    jest.isolateModules(() => {
+      metrics = require("../src/nodes/HttpRequest/metrics");
+    });
+    return metrics;
+  };
+  const logger = () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() });
+
+  it("registriert die Counter einmal bei der übergebenen prom-client-Registry", () => {
+    const metrics = loadMetrics();
+    const counters: Array<{ name: string; collect(this: unknown): void }> = [];
+    const promClient = {
+      Counter: jest.fn(function (config: { name: string; collect(this: unknown): void }) {
+        counters.push(config);
+      }) as unknown as PromClient["Counter"],
+      register: { getSingleMetric: () => undefined },
+    };
+
+    metrics.bridgeMetrics(logger(), promClient);
+    metrics.bridgeMetrics(logger(), promClient);
+    expect(counters.map((c) => c.name)).toEqual([
+      "n8n_http_throttled_throttle_responses_total",
+      "n8n_http_throttled_retries_total",
+      "n8n_http_throttled_exhausted_total",
+      "n8n_http_throttled_wait_seconds_total",
+    ]);
+
+    metrics.countThrottle("api.example.com", "429");
+    const counter = { reset: jest.fn(), inc: jest.fn() };
+    counters[0].collect.call(counter);
+    expect(counter.inc).toHaveBeenCalledWith({ host: "api.example.com", status: "429" }, 1);
+  });
+
+  it("meldet einmal auf Debug-Ebene, wenn kein prom-client von n8n gefunden wird", () => {
+    const metrics = loadMetrics();
+    const log = logger();
+    metrics.bridgeMetrics(log, null);
+    metrics.bridgeMetrics(log, null);
+    expect(log.debug).toHaveBeenCalledTimes(1);
+    expect(log.debug).toHaveBeenCalledWith(expect.stringMatching(/not exposed on \/metrics/));
+  });
+});
@@ -0,0 +1,151 @@
+// test/node-loader.test.ts
+
+import type { IExecuteFunctions } from "n8n-workflow";
+import {
+  loadNodeType,
+  describeNodeRef,
+  nodeBaseModules,
+  HTTP_REQUEST_MODULES,
+  HTTP_REQUEST_MIN_VERSION,
+  withNodeVersion,
+} from "../src/nodes/HttpRequest/node-loader";
+
+const loadHttpRequest = () => loadNodeType(HTTP_REQUEST_MODULES, HTTP_REQUEST_MIN_VERSION);
+
+const mockNodes = {
+  HttpRequestV2: class HttpRequestV2 {
+    description = { version: 2, properties: [] };
+    async execute() {
+      return [[]];
+    }
+  },
+  HttpRequestV3: class HttpRequestV3 {
+    description = { version: [3, 4, 4.1, 4.2], properties: [] };
+    async execute() {
+      return [[]];
+    }
+  },
+  HttpRequestV5: class HttpRequestV5 {
+    description = { version: [5], properties: [] };
+    async execute() {
+      return [[]];
+    }
+  },
+};
+
+// What the mocked n8n-nodes-base provides: versions of the versioned node, and the V3 module
+const mockInstalled: { versions: Record<number, keyof typeof mockNodes> | null; v3: boolean } = {
+  versions: null,
+  v3: false,
+};
+
+jest.mock(
+  "n8n-nodes-base/dist/nodes/HttpRequest/HttpRequest.node",
+  () => ({
+    get HttpRequest() {
+      const versions = mockInstalled.versions;
+      if (!versions) return undefined;
+      const nodeVersions = Object.fromEntries(
+        Object.entries(versions).map(([v, name]) => [v, new mockNodes[name]()]),
+      );
+      return class HttpRequest {
+        nodeVersions = nodeVersions;
+        getNodeType(version: number) {
+          return this.nodeVersions[version];
+        }
+      };
+    },
+  }),
+  { virtual: true },
+);
+
+jest.mock(
+  "n8n-nodes-base/dist/nodes/HttpRequest/V3/HttpRequestV3.node",
+  () => ({
+    get HttpRequestV3() {
+      return mockInstalled.v3 ? mockNodes.HttpRequestV3 : undefined;
+    },
+  }),
+  { virtual: true },
+);
+
+// ── loadNodeType ──────────────────────────────────────────────────────────────
+
+describe("loadNodeType", () => {
+  afterEach(() => {
+    mockInstalled.versions = null;
+    mockInstalled.v3 = false;
+  });
+
+  it("nimmt die neueste Version des versionierten Nodes", () => {
+    mockInstalled.versions = { 2: "HttpRequestV2", 4.2: "HttpRequestV3", 5: "HttpRequestV5" };
+    const ref = loadHttpRequest();
+    expect(ref).toMatchObject({ implementation: "HttpRequestV5", version: 5 });
+    expect(ref?.modulePath).toBe("n8n-nodes-base/dist/nodes/HttpRequest/HttpRequest.node");
+  });
+
+  it("lädt V3 direkt, wenn der versionierte Node nichts Nutzbares liefert", () => {
+    mockInstalled.versions = { 1: "HttpRequestV2", 2: "HttpRequestV2" };
+    mockInstalled.v3 = true;
+    expect(loadHttpRequest()).toMatchObject({ implementation: "HttpRequestV3", version: 4.2 });
+  });
+
+  it("verwirft Implementierungen unter der Mindestversion", () => {
+    mockInstalled.versions = { 1: "HttpRequestV2", 2: "HttpRequestV2" };
+    expect(loadHttpRequest()).toBeNull();
+    expect(loadNodeType(HTTP_REQUEST_MODULES)).toMatchObject({ implementation: "HttpRequestV2", version: 2 });
+  });
+
+  it("gibt null zurück ohne n8n-nodes-base", () => {
+    expect(loadHttpRequest()).toBeNull();
+  });
+});
+
+// ── nodeBaseModules ──────────────────────────────────────────────────────────
+
+describe("nodeBaseModules", () => {
+  it("liefert das Modul in beiden Paket-Layouts, dist zuerst", () => {
+    expect(nodeBaseModules("Hubspot/Hubspot.node", "Hubspot")).toEqual([
+      { path: "n8n-nodes-base/dist/nodes/Hubspot/Hubspot.node", exportName: "Hubspot" },
+      { path: "n8n-nodes-base/nodes/Hubspot/Hubspot.node", exportName: "Hubspot" },
+    ]);
+  });
+});
+
+// ── describeNodeRef ───────────────────────────────────────────────────────────
+
+describe("describeNodeRef", () => {
+  it("nennt Implementierung, Version und Modul", () => {
+    expect(describeNodeRef({
+      implementation: "HttpRequestV3",
+      version: 4.2,
+      modulePath: "n8n-nodes-base/dist/nodes/HttpRequest/HttpRequest.node",
+    } as Parameters<typeof describeNodeRef>[0], "HTTP Request")).toBe(
+      "Using HttpRequestV3 (HTTP Request v4.2) from n8n-nodes-base/dist/nodes/HttpRequest/HttpRequest.node",
+    );
+  });
+});
+
+// ── withNodeVersion ───────────────────────────────────────────────────────────
+
+describe("withNodeVersion", () => {
+  class Context {
+    helpers = { httpRequest: () => "ok" };
+    #items = [{ json: { a: 1 } }];
+    getNode() {
+      return { name: "HTTP Request (Throttled)", typeVersion: 1 };
+    }
+    getInputData() {
+      return this.#items;
+    }
+  }
+
+  it("meldet die geladene Version und reicht den Rest an den Kontext durch", () => {
+    const ctx = new Context();
+    const versioned = withNodeVersion(ctx as unknown as IExecuteFunctions, 4.2);
+    expect(versioned.getNode()).toEqual({ name: "HTTP Request (Throttled)", typeVersion: 4.2 });
+    expect(versioned.getInputData()).toEqual([{ json: { a: 1 } }]);
+    expect(versioned.helpers).toBe(ctx.helpers);
+    expect(ctx.getNode().typeVersion).toBe(1);
+  });
+});
@@ -0,0 +1,142 @@
+// test/providers.test.ts
+
+import {
+  resolveProviderProfile,
+  providerAllowsRetry,
+} from "../src/nodes/HttpRequest/providers";
+import { computeWaitMs, computeSlowdownMs } from "../src/nodes/HttpRequest/throttling";
+import { detectBodyThrottle } from "../src/nodes/HttpRequest/body-rules";
+
+const DEFAULT = 10_000;
+const profile = (id: string) => resolveProviderProfile(id, undefined);
+const withProfile = (id: string) => ({ profile: profile(id) });
+
+// ── resolveProviderProfile ────────────────────────────────────────────────────
+
+describe("resolveProviderProfile", () => {
+  it("erkennt Anbieter am Host", () => {
+    expect(resolveProviderProfile("auto", "https://api.github.com/repos")?.id).toBe("github");
+    expect(resolveProviderProfile("auto", "https://shop.myshopify.com/admin/api")?.id).toBe("shopify");
+    expect(resolveProviderProfile("auto", "https://acme.atlassian.net/rest")?.id).toBe("atlassian");
+  });
+
+  it("matcht Suffixe nicht als Teilstring", () => {
+    expect(resolveProviderProfile("auto", "https://evilmyshopify.com/x")).toBeNull();
+  });
+
+  it("gibt null zurück bei unbekanntem Host, ungültiger URL oder 'none'", () => {
+    expect(resolveProviderProfile("auto", "https://api.example.com")).toBeNull();
+    expect(resolveProviderProfile("auto", "kaputt")).toBeNull();
+    expect(resolveProviderProfile("none", "https://api.github.com")).toBeNull();
+  });
+
+  it("nutzt ein explizit gewähltes Profil unabhängig vom Host", () => {
+    expect(resolveProviderProfile("zendesk", "https://api.example.com")?.id).toBe("zendesk");
+  });
+});
+
+// ── Anbieter-Profile in computeWaitMs ─────────────────────────────────────────
+
+describe("Anbieter-Profile", () => {
+  it("Shopify: versteht Retry-After mit Nachkommastellen", () => {
+    expect(computeWaitMs({ "Retry-After": "2.0" }, DEFAULT, withProfile("shopify"))).toBe(2_000);
+  });
+
+  it("Shopify: verlangsamt anhand von X-Shopify-Shop-Api-Call-Limit", () => {
+    // 39/40 → 1 übrig, Bucket leert sich in 39 × 500 ms
+    expect(
+      computeSlowdownMs({ "X-Shopify-Shop-Api-Call-Limit": "39/40" }, 5, withProfile("shopify"))
+    ).toBe(9_750);
+  });
+
+  it("GitHub: berechnet Remaining aus limit - used", () => {
+    const resetSec = Math.floor(Date.now() / 1000) + 10;
+    const result = computeWaitMs(
+      { "X-RateLimit-Limit": "60", "X-RateLimit-Used": "60", "X-RateLimit-Reset": String(resetSec) },
+      DEFAULT,
+      withProfile("github")
+    );
+    expect(result).toBeGreaterThan(8_000);
+    expect(result).toBeLessThan(12_000);
+  });
+
+  it("GitHub: wartet bei Secondary Limits ohne Header eine Minute", () => {
+    expect(computeWaitMs({}, DEFAULT, withProfile("github"))).toBe(60_000);
+  });
+
+  it("Atlassian: nutzt Beta-Retry-After", () => {
+    expect(computeWaitMs({ "Beta-Retry-After": "7" }, DEFAULT, withProfile("atlassian"))).toBe(7_000);
+  });
+
+  it("Atlassian: versteht ISO-Reset-Timestamps", () => {
+    const reset = new Date(Date.now() + 10_000).toISOString();
+    const result = computeWaitMs(
+      { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": reset },
+      DEFAULT,
+      withProfile("atlassian")
+    );
+    expect(result).toBeGreaterThan(8_000);
+    expect(result).toBeLessThan(12_000);
+  });
+
+  it("Salesforce: liest Remaining aus Sforce-Limit-Info", () => {
+    expect(
+      computeWaitMs({ "Sforce-Limit-Info": "api-usage=5000/5000" }, DEFAULT, withProfile("salesforce"))
+    ).toBe(DEFAULT);
+    expect(
+      computeSlowdownMs(
+        { "Sforce-Limit-Info": "api-usage=4999/5000", "X-RateLimit-Reset": "20" },
+        5,
+        withProfile("salesforce")
+      )
+    ).toBe(10_000);
+  });
+
+  it("Zendesk: wählt das knappste Endpoint-Limit", () => {
+    expect(
+      computeWaitMs(
+        {
+          "Zendesk-RateLimit-Tickets-Index": "total=100; remaining=0; resets=12",
+          "Zendesk-RateLimit-Search": "total=100; remaining=50; resets=30",
+        },
+        DEFAULT,
+        withProfile("zendesk")
+      )
+    ).toBe(12_000);
+  });
+});
+
+// ── Anbieter-Profile im Response-Body ────────────────────────────────────────
+
+describe("Anbieter-Profile im Body", () => {
+  it("Shopify GraphQL: berechnet die Wartezeit aus throttleStatus", () => {
+    const body = Buffer.from(JSON.stringify({
+      errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }],
+      extensions: {
+        cost: {
+          requestedQueryCost: 202,
+          throttleStatus: { maximumAvailable: 2000, currentlyAvailable: 2, restoreRate: 100 },
+        },
+      },
+    }));
+    expect(detectBodyThrottle(body, [], profile("shopify"))).toEqual({ waitMs: 2_000 });
+  });
+
+  it("Shopify GraphQL: ignoriert erfolgreiche Antworten", () => {
+    expect(detectBodyThrottle({ data: { shop: {} } }, [], profile("shopify"))).toBeNull();
+  });
+});
+
+// ── providerAllowsRetry ───────────────────────────────────────────────────────
+
+describe("providerAllowsRetry", () => {
+  it("respektiert Stripe-Should-Retry: false", () => {
+    expect(providerAllowsRetry(profile("stripe"), { "Stripe-Should-Retry": "false" })).toBe(false);
+    expect(providerAllowsRetry(profile("stripe"), { "Stripe-Should-Retry": "true" })).toBe(true);
+    expect(providerAllowsRetry(profile("stripe"), {})).toBe(true);
+  });
+
+  it("erlaubt Retries ohne Profil", () => {
+    expect(providerAllowsRetry(null, { "Stripe-Should-Retry": "false" })).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+// test/rate-limiter.test.ts
+
+import { TokenBucket, createTokenBucket } from "../src/nodes/HttpRequest/rate-limiter";
+
+// ── TokenBucket ───────────────────────────────────────────────────────────────
+
+describe("TokenBucket", () => {
+  const T0 = 1_000_000;
+
+  it("lässt Requests bis zur Kapazität sofort durch", () => {
+    const bucket = new TokenBucket(3, 3 / 1_000, T0);
+    expect(bucket.reserve(T0)).toBe(0);
+    expect(bucket.reserve(T0)).toBe(0);
+    expect(bucket.reserve(T0)).toBe(0);
+  });
+
+  it("reiht weitere Requests hintereinander ein", () => {
+    // 10 req / 1000 ms → ein Token alle 100 ms
+    const bucket = new TokenBucket(1, 10 / 1_000, T0);
+    expect(bucket.reserve(T0)).toBe(0);
+    expect(bucket.reserve(T0)).toBe(100);
+    expect(bucket.reserve(T0)).toBe(200);
+  });
+
+  it("füllt Tokens über die Zeit wieder auf", () => {
+    const bucket = new TokenBucket(2, 10 / 1_000, T0);
+    bucket.reserve(T0);
+    bucket.reserve(T0);
+    expect(bucket.reserve(T0 + 100)).toBe(0);
+  });
+
+  it("füllt nie über die Kapazität hinaus auf", () => {
+    const bucket = new TokenBucket(2, 10 / 1_000, T0);
+    const later = T0 + 60_000;
+    expect(bucket.reserve(later)).toBe(0);
+    expect(bucket.reserve(later)).toBe(0);
+    expect(bucket.reserve(later)).toBe(100);
+  });
+
+  it("meldet, ab wann der Bucket wieder voll ist", () => {
+    const bucket = new TokenBucket(2, 10 / 1_000, T0);
+    expect(bucket.fullAt()).toBe(T0);
+    bucket.reserve(T0);
+    bucket.reserve(T0);
+    bucket.reserve(T0);
+    // -1 Token → 3 Tokens fehlen, 100 ms pro Token
+    expect(bucket.fullAt()).toBe(T0 + 300);
+  });
+});
+
+// ── createTokenBucket ─────────────────────────────────────────────────────────
+
+describe("createTokenBucket", () => {
+  it("gibt null zurück wenn Pacing deaktiviert ist", () => {
+    expect(createTokenBucket(0, 1_000, 0)).toBeNull();
+    expect(createTokenBucket(10, 0, 0)).toBeNull();
+  });
+
+  it("nutzt requestsPerInterval als Kapazität wenn burstSize 0 ist", () => {
+    const bucket = createTokenBucket(100, 10_000, 0)!;
+    expect(bucket.capacity).toBe(100);
+    expect(bucket.refillPerMs).toBeCloseTo(0.01);
+  });
+
+  it("nutzt burstSize als Kapazität", () => {
+    expect(createTokenBucket(100, 10_000, 10)!.capacity).toBe(10);
+  });
+});
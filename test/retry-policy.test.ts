@@ -0,0 +1,104 @@
+// test/retry-policy.test.ts
+
+import {
+  connectionErrorCode,
+  isIdempotentMethod,
+  parseErrorCodes,
+  hasIdempotencyKey,
+  mayRetryThrottled,
+  withIdempotencyKey,
+  DEFAULT_CONNECTION_ERROR_CODES,
+} from "../src/nodes/HttpRequest/retry-policy";
+import type { IHttpRequestOptions } from "n8n-workflow";
+
+const codes = new Set(DEFAULT_CONNECTION_ERROR_CODES);
+const req = (method: IHttpRequestOptions["method"], headers = {}): IHttpRequestOptions => ({
+  method, url: "https://api.example.com/orders", headers,
+});
+
+// ── connectionErrorCode ───────────────────────────────────────────────────────
+
+describe("connectionErrorCode", () => {
+  it("erkennt den Code direkt am Fehler", () => {
+    expect(connectionErrorCode(Object.assign(new Error("read"), { code: "ECONNRESET" }), codes)).toBe("ECONNRESET");
+  });
+
+  it("durchsucht die cause-Kette", () => {
+    const socket = Object.assign(new Error("connect"), { code: "ETIMEDOUT" });
+    const axios = Object.assign(new Error("axios"), { cause: socket });
+    const wrapped = Object.assign(new Error("Request failed"), { cause: axios });
+    expect(connectionErrorCode(wrapped, codes)).toBe("ETIMEDOUT");
+  });
+
+  it("matcht Textfragmente in der Fehlermeldung", () => {
+    expect(connectionErrorCode(new Error("Socket hang up"), codes)).toBe("socket hang up");
+  });
+
+  it("gibt null zurück für andere Fehler", () => {
+    expect(connectionErrorCode(new Error("Invalid JSON"), codes)).toBeNull();
+    expect(connectionErrorCode(undefined, codes)).toBeNull();
+  });
+});
+
+// ── isIdempotentMethod / parseErrorCodes ──────────────────────────────────────
+
+describe("isIdempotentMethod", () => {
+  it("unterscheidet idempotente Methoden", () => {
+    expect(isIdempotentMethod("get")).toBe(true);
+    expect(isIdempotentMethod("PUT")).toBe(true);
+    expect(isIdempotentMethod("DELETE")).toBe(true);
+    expect(isIdempotentMethod("POST")).toBe(false);
+    expect(isIdempotentMethod("PATCH")).toBe(false);
+  });
+
+  it("behandelt eine fehlende Methode als GET", () => {
+    expect(isIdempotentMethod(undefined)).toBe(true);
+  });
+});
+
+describe("parseErrorCodes", () => {
+  it("trennt an Kommas und ignoriert Leereinträge", () => {
+    expect([...parseErrorCodes(" ECONNRESET, ,ETIMEDOUT ")]).toEqual(["ECONNRESET", "ETIMEDOUT"]);
+  });
+});
+
+// ── mayRetryThrottled ─────────────────────────────────────────────────────────
+
+describe("mayRetryThrottled", () => {
+  it("wiederholt idempotente Methoden bei jedem Throttle-Status", () => {
+    expect(mayRetryThrottled("safe", req("GET"), 503, false)).toBe(true);
+    expect(mayRetryThrottled("safe", req("PUT"), 504, false)).toBe(true);
+  });
+
+  it("wiederholt POST nur bei 429, Body-Throttling oder mit Idempotency-Key", () => {
+    expect(mayRetryThrottled("safe", req("POST"), 503, false)).toBe(false);
+    expect(mayRetryThrottled("safe", req("POST"), 429, false)).toBe(true);
+    expect(mayRetryThrottled("safe", req("POST"), 200, true)).toBe(true);
+    expect(mayRetryThrottled("safe", req("POST", { "idempotency-key": "k" }), 503, false)).toBe(true);
+  });
+
+  it("wiederholt mit Richtlinie 'all' jede Methode", () => {
+    expect(mayRetryThrottled("all", req("PATCH"), 503, false)).toBe(true);
+  });
+});
+
+// ── withIdempotencyKey ────────────────────────────────────────────────────────
+
+describe("withIdempotencyKey", () => {
+  it("ergänzt einen Schlüssel bei POST", () => {
+    const result = withIdempotencyKey(req("POST"));
+    expect((result.headers as Record<string, string>)["Idempotency-Key"]).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it("lässt idempotente Methoden und vorhandene Schlüssel unverändert", () => {
+    const get = req("GET");
+    expect(withIdempotencyKey(get)).toBe(get);
+    const keyed = req("POST", { "X-Idempotency-Key": "mine" });
+    expect(withIdempotencyKey(keyed)).toBe(keyed);
+  });
+
+  it("nutzt einen konfigurierten Header-Namen", () => {
+    const result = withIdempotencyKey(req("PATCH"), "X-Request-Id");
+    expect(hasIdempotencyKey(result, "X-Request-Id")).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+// test/simulation.test.ts
+
+import type { IExecuteFunctions } from "n8n-workflow";
+import {
+  parseMockResponses,
+  ThrottleSimulation,
+  type TimelineEntry,
+} from "../src/nodes/HttpRequest/simulation";
+import type { ThrottleConfig } from "../src/nodes/HttpRequest/throttle-wrapper";
+import { parseUrlRules } from "../src/nodes/HttpRequest/url-rules";
+
+const ctx = {
+  getNode: () => ({ name: "HTTP Request (Throttled)", type: "test", typeVersion: 1, parameters: {} }),
+} as unknown as IExecuteFunctions;
+
+const config = (overrides: Partial<ThrottleConfig> = {}) =>
+  ({
+    codes: new Set(["429", "503"]),
+    defaultWaitMs: 1_000,
+    jitterPercent: 0,
+    maxRetries: 3,
+    rateLimit: { requestsPerInterval: 0, intervalMs: 1_000, burstSize: 0 },
+    urlRules: [],
+    slowdownThreshold: 0,
+    provider: "none",
+    headerMappings: [],
+    bodyRules: [],
+    backoff: { strategy: "fixed", multiplier: 2, maxMs: 60_000 },
+    maxWaitMs: 300_000,
+    maxItemWaitMs: 0,
+    maxExecutionWaitMs: 0,
+    waitBudget: { executionMs: 0, itemMs: new Map() },
+    methodRetryPolicy: "safe",
+    idempotencyKeyHeader: "Idempotency-Key",
+    ...overrides,
+  }) as unknown as ThrottleConfig;
+
+const GET = { method: "GET" as const, url: "https://api.example.com/items" };
+
+const actions = (result: { timeline?: unknown }) =>
+  (result.timeline as TimelineEntry[]).map((e) => e.action);
+
+// ── parseMockResponses ────────────────────────────────────────────────────────
+
+describe("parseMockResponses", () => {
+  it("parst JSON-Strings und ergänzt Defaults", () => {
+    expect(parseMockResponses('[{"status":429,"headers":{"Retry-After":2}}]')).toEqual([
+      { status: 429, headers: { "Retry-After": "2" }, body: undefined, latencyMs: 0 },
+    ]);
+  });
+
+  it("wirft bei ungültiger Eingabe", () => {
+    expect(() => parseMockResponses("{kaputt")).toThrow(/not valid JSON/);
+    expect(() => parseMockResponses({ status: 200 })).toThrow(/JSON array/);
+    expect(() => parseMockResponses([{ headers: {} }])).toThrow(/response 1/);
+  });
+});
+
+// ── ThrottleSimulation ────────────────────────────────────────────────────────
+
+describe("ThrottleSimulation", () => {
+  it("spielt Retries auf der virtuellen Uhr ab", () => {
+    const sim = new ThrottleSimulation(ctx, config(), parseMockResponses([
+      { status: 429, headers: { "Retry-After": "2" } },
+      { status: 429, headers: {} },
+      { status: 200 },
+    ]));
+    const result = sim.runItem(0, GET);
+
+    expect(result).toMatchObject({ outcome: "success", attempts: 3, totalWaitMs: 3_000, finishedAtMs: 3_000 });
+    expect(result.timeline).toEqual([
+      { atMs: 0, attempt: 1, status: 429, action: "retry", waitMs: 2_000, source: "retryAfter" },
+      { atMs: 2_000, attempt: 2, status: 429, action: "retry", waitMs: 1_000, source: "default" },
+      { atMs: 3_000, attempt: 3, status: 200, action: "success" },
+    ]);
+  });
+
+  it("meldet ausgeschöpfte Retries", () => {
+    const script = parseMockResponses(Array(5).fill({ status: 503 }));
+    const result = new ThrottleSimulation(ctx, config({ maxRetries: 2 }), script).runItem(0, GET);
+    expect(result.outcome).toBe("exhausted");
+    expect(actions(result)).toEqual(["retry", "retry", "exhausted"]);
+  });
+
+  it("wendet die URL-Regel des Requests an", () => {
+    const urlRules = parseUrlRules([{ match: "host", pattern: "api.example.com", maxThrottleTries: 1 }]);
+    const script = parseMockResponses(Array(5).fill({ status: 429 }));
+    const result = new ThrottleSimulation(ctx, config({ urlRules }), script).runItem(0, GET);
+    expect(actions(result)).toEqual(["retry", "exhausted"]);
+  });
+
+  it("stoppt am Warte-Budget", () => {
+    const script = parseMockResponses([{ status: 429, headers: { "Retry-After": "10" } }]);
+    const result = new ThrottleSimulation(ctx, config({ maxItemWaitMs: 5_000 }), script).runItem(0, GET);
+    expect(result.outcome).toBe("budgetExceeded");
+  });
+
+  it("wiederholt POST nach 503 nicht", () => {
+    const script = parseMockResponses([{ status: 503 }]);
+    const result = new ThrottleSimulation(ctx, config(), script).runItem(0, { ...GET, method: "POST" });
+    expect(result.outcome).toBe("notRetried");
+  });
+
+  it("stellt lange Wartezeiten zurück, auch für die folgenden Items", () => {
+    const sim = new ThrottleSimulation(ctx, config({ deferWaitsAboveMs: 30_000 }), parseMockResponses([
+      { status: 429, headers: { "Retry-After": "120" } },
+    ]));
+    const first = sim.runItem(0, GET);
+    expect(first).toMatchObject({ outcome: "deferred", attempts: 1, totalWaitMs: 0 });
+    expect(first.timeline).toEqual([
+      { atMs: 0, attempt: 1, status: 429, action: "deferred", waitMs: 120_000, source: "retryAfter" },
+    ]);
+    // Der Bucket ist noch 120s blockiert: kein Request für Item 1
+    expect(sim.runItem(1, GET)).toMatchObject({ outcome: "deferred", attempts: 0 });
+  });
+
+  it("teilt Uhr und Skript zwischen Items", () => {
+    const sim = new ThrottleSimulation(ctx, config(), parseMockResponses([
+      { status: 200, headers: {}, latencyMs: 100 },
+      { status: 429, headers: { "Retry-After": "1" } },
+    ]));
+    expect(sim.runItem(0, GET)).toMatchObject({ outcome: "success", finishedAtMs: 100 });
+    expect(sim.runItem(1, GET)).toMatchObject({ outcome: "success", attempts: 2, finishedAtMs: 1_100 });
+  });
+
+  it("taktet Requests mit dem Rate-Limiter", () => {
+    const sim = new ThrottleSimulation(
+      ctx,
+      config({ rateLimit: { requestsPerInterval: 1, intervalMs: 1_000, burstSize: 0 } }),
+      [],
+    );
+    sim.runItem(0, GET);
+    const second = sim.runItem(1, GET);
+    expect(actions(second)).toEqual(["paced", "success"]);
+    expect(second.finishedAtMs).toBe(1_000);
+  });
+});
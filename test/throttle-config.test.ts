@@ -0,0 +1,28 @@
+// test/throttle-config.test.ts
+
+import type { IExecuteFunctions } from "n8n-workflow";
+import { readThrottleConfig } from "../src/nodes/HttpRequest/throttle-config";
+
+const ctxWith = (throttling: Record<string, unknown>) =>
+  ({
+    getNode: () => ({ name: "HTTP Request (Throttled)", type: "test", typeVersion: 1, parameters: {} }),
+    getNodeParameter: (name: string, _itemIndex: number, fallback: unknown) =>
+      name === "throttling" ? throttling : fallback,
+    evaluateExpression: () => "",
+  }) as unknown as IExecuteFunctions;
+
+// ── readThrottleConfig ────────────────────────────────────────────────────────
+
+describe("readThrottleConfig", () => {
+  it("übernimmt die Zurückstell-Schwelle mit Throttled-Ausgang", () => {
+    const config = readThrottleConfig(ctxWith({ throttledOutput: true, deferWaitsAboveMs: 60_000 }));
+    expect(config.deferWaitsAboveMs).toBe(60_000);
+    expect(config.passThrottledResponses).toBe(false);
+  });
+
+  it("lehnt die Zurückstell-Schwelle ohne Throttled-Ausgang ab", () => {
+    expect(() => readThrottleConfig(ctxWith({ deferWaitsAboveMs: 60_000 })))
+      .toThrow(/needs the Throttled \/ Failed Output/);
+    expect(readThrottleConfig(ctxWith({ deferWaitsAboveMs: 0 })).deferWaitsAboveMs).toBe(0);
+  });
+});
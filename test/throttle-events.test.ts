@@ -0,0 +1,113 @@
+// test/throttle-events.test.ts
+
+import { constants, mkdtempSync, readFileSync, rmSync } from "fs";
+import { writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { IExecuteFunctions } from "n8n-workflow";
+import {
+  onThrottleEvent,
+  emitThrottleEvent,
+  flushThrottleEvents,
+  type ThrottleEvent,
+} from "../src/nodes/HttpRequest/throttle-events";
+
+const makeCtx = (written: string[] = [], warnings: string[] = []) =>
+  ({
+    getNode: () => ({ name: "HTTP Request (Throttled)" }),
+    getWorkflow: () => ({ id: "wf1", name: "Sync", active: true }),
+    getExecutionId: () => "42",
+    logger: { warn: (m: string) => warnings.push(m) },
+    helpers: {
+      resolvePath: async (p: string) => p,
+      writeContentToFile: async (path: string, content: string, flag: unknown) => {
+        written.push(`${path}|${String(flag)}|${content}`);
+      },
+    },
+  }) as unknown as IExecuteFunctions;
+
+// ── onThrottleEvent ───────────────────────────────────────────────────────────
+
+describe("onThrottleEvent", () => {
+  it("liefert Events mit Workflow- und Execution-Kontext", () => {
+    const events: ThrottleEvent[] = [];
+    const off = onThrottleEvent((e) => events.push(e));
+    emitThrottleEvent(makeCtx(), "", { type: "wait", itemIndex: 3, host: "api.example.com", waitMs: 500, source: "retryAfter" });
+    off();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: "wait",
+      workflowId: "wf1",
+      workflowName: "Sync",
+      executionId: "42",
+      node: "HTTP Request (Throttled)",
+      itemIndex: 3,
+      waitMs: 500,
+    });
+    expect(Date.parse(events[0].time)).not.toBeNaN();
+  });
+
+  it("empfängt nach dem Abmelden keine Events mehr", () => {
+    const events: ThrottleEvent[] = [];
+    onThrottleEvent((e) => events.push(e))();
+    emitThrottleEvent(makeCtx(), "", { type: "retry", itemIndex: 0, host: "h" });
+    expect(events).toHaveLength(0);
+  });
+
+  it("lässt fehlerhafte Listener die Anfrage nicht scheitern", () => {
+    const warnings: string[] = [];
+    const off = onThrottleEvent(() => { throw new Error("boom"); });
+    expect(() =>
+      emitThrottleEvent(makeCtx([], warnings), "", { type: "exhausted", itemIndex: 0, host: "h" })
+    ).not.toThrow();
+    off();
+    expect(warnings[0]).toContain("boom");
+  });
+});
+
+// ── emitThrottleEvent ─────────────────────────────────────────────────────────
+
+describe("emitThrottleEvent mit Event-Log", () => {
+  it("hängt JSON-Zeilen in Reihenfolge an die Datei an", async () => {
+    const written: string[] = [];
+    const ctx = makeCtx(written);
+    emitThrottleEvent(ctx, "/tmp/events.jsonl", { type: "throttle-start", itemIndex: 0, host: "h", status: 429 });
+    emitThrottleEvent(ctx, "/tmp/events.jsonl", { type: "retry", itemIndex: 0, host: "h", attempt: 1 });
+    await flushThrottleEvents();
+
+    expect(written).toHaveLength(2);
+    const [path, flag, line] = written[0].split("|");
+    expect(path).toBe("/tmp/events.jsonl");
+    expect(Number(flag)).toBe(constants.O_WRONLY | constants.O_CREAT | constants.O_APPEND);
+    expect(JSON.parse(line)).toMatchObject({ type: "throttle-start", status: 429 });
+    expect(written[1]).toContain('"type":"retry"');
+  });
+
+  it("hängt mit dem Flag über fs.writeFile wirklich an", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "throttle-events-"));
+    const file = join(dir, "events.jsonl");
+    const ctx = makeCtx();
+    (ctx.helpers as unknown as { writeContentToFile: unknown }).writeContentToFile =
+      (path: string, content: string, flag: number) => writeFile(path, content, { flag });
+    try {
+      emitThrottleEvent(ctx, file, { type: "wait", itemIndex: 0, host: "h" });
+      emitThrottleEvent(ctx, file, { type: "retry", itemIndex: 0, host: "h" });
+      await flushThrottleEvents();
+      const lines = readFileSync(file, "utf8").trim().split("\n");
+      expect(lines.map((l) => JSON.parse(l).type)).toEqual(["wait", "retry"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("protokolliert Schreibfehler als Warnung", async () => {
+    const warnings: string[] = [];
+    const ctx = makeCtx([], warnings);
+    (ctx.helpers as unknown as { writeContentToFile: () => Promise<void> }).writeContentToFile =
+      async () => { throw new Error("EACCES"); };
+    emitThrottleEvent(ctx, "/root/forbidden.jsonl", { type: "wait", itemIndex: 0, host: "h" });
+    await flushThrottleEvents();
+    expect(warnings[0]).toContain("EACCES");
+  });
+});
@@ -0,0 +1,215 @@
+// test/throttle-store.test.ts
+//
+// Contract tests for all ThrottleStore implementations. The Redis store is
+// tested against a local redis-server when REDIS_URL is set, e.g.:
+//   REDIS_URL=redis://localhost:6379 npm test
+
+import { randomUUID } from "crypto";
+import type { Logger } from "n8n-workflow";
+import {
+  MemoryThrottleStore,
+  ThrottleStoreError,
+  type ThrottleStore,
+} from "../src/nodes/HttpRequest/throttle-store";
+import {
+  RedisThrottleStore,
+  createRedisClient,
+  type RedisClient,
+} from "../src/nodes/HttpRequest/redis-store";
+
+const PACED = { requestsPerInterval: 10, intervalMs: 1_000, burstSize: 2 };
+const UNPACED = { requestsPerInterval: 0, intervalMs: 1_000, burstSize: 0 };
+
+function storeContract(name: string, createStore: () => ThrottleStore) {
+  describe(name, () => {
+    let store: ThrottleStore;
+    // Fresh key per test, so a shared Redis needs no cleanup between runs
+    let key: string;
+
+    beforeEach(() => {
+      store = createStore();
+      key = `test:${randomUUID()}`;
+    });
+
+    it("gibt ohne Pacing immer 0 zurück", async () => {
+      for (let i = 0; i < 5; i++) {
+        expect(await store.reserveToken(key, UNPACED)).toBe(0);
+      }
+    });
+
+    it("lässt den Burst durch und reiht danach ein", async () => {
+      expect(await store.reserveToken(key, PACED)).toBe(0);
+      expect(await store.reserveToken(key, PACED)).toBe(0);
+      const wait = await store.reserveToken(key, PACED);
+      // 10 req/s → ~100ms pro Token
+      expect(wait).toBeGreaterThan(50);
+      expect(wait).toBeLessThanOrEqual(100);
+    });
+
+    it("ist ohne Block nicht blockiert", async () => {
+      expect(await store.getBlockedUntil(key)).toBe(0);
+    });
+
+    it("verlängert blockedUntil, verkürzt es aber nie", async () => {
+      const until = Date.now() + 10_000;
+      await store.blockUntil(key, until);
+      await store.blockUntil(key, until - 5_000);
+      // Redis rechnet über die Serverzeit um, daher auf wenige ms genau
+      expect(Math.abs((await store.getBlockedUntil(key)) - until)).toBeLessThanOrEqual(5);
+    });
+
+    it("vergibt höchstens `limit` Leases und gibt sie wieder frei", async () => {
+      const a = await store.acquireLease(key, 2, 10_000);
+      const b = await store.acquireLease(key, 2, 10_000);
+      expect(a).not.toBeNull();
+      expect(b).not.toBeNull();
+      expect(await store.acquireLease(key, 2, 10_000)).toBeNull();
+
+      await store.releaseLease(key, a!);
+      expect(await store.acquireLease(key, 2, 10_000)).not.toBeNull();
+    });
+
+    it("lässt abgelaufene Leases verfallen", async () => {
+      expect(await store.acquireLease(key, 1, 1)).not.toBeNull();
+      await new Promise((r) => setTimeout(r, 10));
+      expect(await store.acquireLease(key, 1, 10_000)).not.toBeNull();
+    });
+  });
+}
+
+storeContract("MemoryThrottleStore", () => new MemoryThrottleStore());
+
+describe("MemoryThrottleStore (Aufräumen)", () => {
+  const T0 = 1_700_000_000_000;
+  const entries = (store: MemoryThrottleStore) =>
+    (store as unknown as { entries: Map<string, unknown> }).entries;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: T0 });
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("entfernt untätige Buckets, Blocks und Leases nach einer Minute", async () => {
+    const store = new MemoryThrottleStore();
+    await store.reserveToken("paced", PACED);
+    await store.blockUntil("blocked", T0 + 30_000);
+    const lease = await store.acquireLease("released", 1, 10_000);
+    await store.releaseLease("released", lease!);
+    await store.acquireLease("expired", 1, 10_000);
+    expect(entries(store).size).toBe(4);
+
+    jest.setSystemTime(T0 + 60_000);
+    await store.getBlockedUntil("other");
+    await store.reserveToken("fresh", UNPACED);
+    expect([...entries(store).keys()]).toEqual(["fresh"]);
+  });
+
+  it("behält Buckets mit aktivem Block, Lease oder Wartenden", async () => {
+    const store = new MemoryThrottleStore();
+    await store.blockUntil("blocked", T0 + 120_000);
+    await store.acquireLease("leased", 1, 120_000);
+    // 1 Token pro Sekunde, 100 Reservierungen → erst nach ~100 s wieder voll
+    const slow = { requestsPerInterval: 1, intervalMs: 1_000, burstSize: 1 };
+    for (let i = 0; i < 100; i++) await store.reserveToken("queued", slow);
+
+    jest.setSystemTime(T0 + 60_000);
+    await store.reserveToken("fresh", UNPACED);
+    expect([...entries(store).keys()].sort()).toEqual(["blocked", "fresh", "leased", "queued"]);
+    expect(await store.getBlockedUntil("blocked")).toBe(T0 + 120_000);
+    expect(await store.acquireLease("leased", 1, 10_000)).toBeNull();
+  });
+});
+
+// ── RedisThrottleStore (ohne Server) ──────────────────────────────────────────
+
+describe("RedisThrottleStore (ohne Server)", () => {
+  const failing: RedisClient = {
+    eval: async () => { throw new Error("connect ECONNREFUSED 127.0.0.1:6379"); },
+    zrem: async () => { throw new Error("connect ECONNREFUSED 127.0.0.1:6379"); },
+  };
+
+  it("nimmt die Zeit für Tokens, Blocks und Leases vom Redis-Server", async () => {
+    const calls: (string | number)[][] = [];
+    const client: RedisClient = {
+      eval: async (script, _numKeys, ...args) => {
+        calls.push([script, ...args]);
+        return 1;
+      },
+      zrem: async () => 0,
+    };
+    const store = new RedisThrottleStore(client);
+    await store.reserveToken("k", PACED);
+    await store.blockUntil("k", Date.now() + 10_000);
+    await store.getBlockedUntil("k");
+    await store.acquireLease("k", 2, 10_000);
+
+    expect(calls).toHaveLength(4);
+    for (const [script, ...args] of calls) {
+      expect(script).toContain("redis.call('TIME')");
+      expect(args.some((arg) => typeof arg === "number" && arg > 1e12)).toBe(false);
+    }
+  });
+
+  it("meldet Client-Fehler als ThrottleStoreError", async () => {
+    const store = new RedisThrottleStore(failing);
+    await expect(store.reserveToken("k", PACED)).rejects.toBeInstanceOf(ThrottleStoreError);
+    await expect(store.getBlockedUntil("k")).rejects.toThrow(
+      "Redis throttle store failed: connect ECONNREFUSED 127.0.0.1:6379",
+    );
+    await expect(store.blockUntil("k", Date.now() + 1_000)).rejects.toBeInstanceOf(ThrottleStoreError);
+    await expect(store.acquireLease("k", 1, 1_000)).rejects.toBeInstanceOf(ThrottleStoreError);
+    await expect(store.releaseLease("k", "id")).rejects.toBeInstanceOf(ThrottleStoreError);
+  });
+});
+
+// ── createRedisClient ─────────────────────────────────────────────────────────
+
+describe("createRedisClient", () => {
+  it("meldet einen nicht erreichbaren Redis einmal pro Ausfall über den Logger", () => {
+    const { EventEmitter } = require("events") as typeof import("events");
+    let fake!: InstanceType<typeof EventEmitter>;
+    let create!: typeof createRedisClient;
+    jest.isolateModules(() => {
+      jest.doMock("ioredis", () => class extends EventEmitter {
+        constructor() {
+          super();
+          fake = this;
+        }
+      });
+      create = require("../src/nodes/HttpRequest/redis-store").createRedisClient;
+    });
+    const logger = { warn: jest.fn(), info: jest.fn() };
+    expect(create("redis://127.0.0.1:6379", logger as unknown as Logger)).toBe(fake);
+
+    // ioredis meldet jeden gescheiterten Reconnect als "error"
+    fake.emit("error", new Error("connect ECONNREFUSED 127.0.0.1:6379"));
+    fake.emit("error", new Error("connect ECONNREFUSED 127.0.0.1:6379"));
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "[Throttling] Redis throttle store unavailable: connect ECONNREFUSED 127.0.0.1:6379",
+    );
+
+    fake.emit("ready");
+    expect(logger.info).toHaveBeenCalledWith("[Throttling] Redis throttle store reconnected");
+    fake.emit("error", new Error("read ECONNRESET"));
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ── RedisThrottleStore (nur mit REDIS_URL) ────────────────────────────────────
+
+const redisUrl = process.env.REDIS_URL;
+const redisClient = redisUrl ? createRedisClient(redisUrl, console as unknown as Logger) : null;
+
+if (redisClient) {
+  afterAll(async () => {
+    await (redisClient as unknown as { quit(): Promise<unknown> }).quit();
+  });
+  storeContract("RedisThrottleStore", () => new RedisThrottleStore(redisClient));
+} else {
+  describe.skip("RedisThrottleStore (REDIS_URL nicht gesetzt)", () => {
+    it("übersprungen", () => undefined);
+  });
+}
@@ -0,0 +1,789 @@
+// test/throttle-wrapper.test.ts
+
+import type {
+  IExecuteFunctions,
+  IHttpRequestOptions,
+  IRequestOptions,
+  PaginationOptions,
+} from "n8n-workflow";
+import {
+  spendWaitBudget,
+  retryAfterConnectionError,
+  withConcurrencySlot,
+  enterCircuit,
+  tripCircuit,
+  recordAttempt,
+  recordWait,
+  attachThrottleMetadata,
+  recordExhaustion,
+  exhaustedItemJson,
+  routeExhaustedItems,
+  recordDeferral,
+  deferredItem,
+  wrapHelpersWithThrottling,
+  type ThrottleConfig,
+} from "../src/nodes/HttpRequest/throttle-wrapper";
+import { NodeApiError } from "n8n-workflow";
+import { MemoryThrottleStore, ThrottleStoreError } from "../src/nodes/HttpRequest/throttle-store";
+import type { BucketRef } from "../src/nodes/HttpRequest/bucket-registry";
+import { DEFAULT_CONNECTION_ERROR_CODES } from "../src/nodes/HttpRequest/retry-policy";
+import { getCircuitBreaker } from "../src/nodes/HttpRequest/circuit-breaker";
+
+const ctx = {
+  getNode: () => ({ name: "HTTP Request (Throttled)", type: "test", typeVersion: 1, parameters: {} }),
+  logger: { debug: () => {}, info: () => {}, warn: () => {} },
+} as unknown as IExecuteFunctions;
+
+const config = (maxItemWaitMs: number, maxExecutionWaitMs: number) =>
+  ({
+    maxItemWaitMs,
+    maxExecutionWaitMs,
+    waitBudget: { executionMs: 0, itemMs: new Map() },
+  }) as unknown as ThrottleConfig;
+
+// ── spendWaitBudget ───────────────────────────────────────────────────────────
+
+describe("spendWaitBudget", () => {
+  it("bucht Wartezeiten pro Item und pro Ausführung", () => {
+    const c = config(0, 0);
+    spendWaitBudget(ctx, c, 0, 1_000);
+    spendWaitBudget(ctx, c, 1, 2_000);
+    expect(c.waitBudget.itemMs.get(0)).toBe(1_000);
+    expect(c.waitBudget.executionMs).toBe(3_000);
+  });
+
+  it("wirft, wenn das Item-Budget überschritten würde", () => {
+    const c = config(5_000, 0);
+    spendWaitBudget(ctx, c, 0, 4_000);
+    expect(() => spendWaitBudget(ctx, c, 0, 2_000)).toThrow(/per item/);
+    // Andere Items haben ihr eigenes Budget
+    expect(() => spendWaitBudget(ctx, c, 1, 2_000)).not.toThrow();
+  });
+
+  it("wirft, wenn das Ausführungs-Budget überschritten würde", () => {
+    const c = config(0, 5_000);
+    spendWaitBudget(ctx, c, 0, 3_000);
+    expect(() => spendWaitBudget(ctx, c, 1, 3_000)).toThrow(/per execution/);
+  });
+
+  it("bucht nichts, wenn das Budget nicht reicht", () => {
+    const c = config(1_000, 0);
+    expect(() => spendWaitBudget(ctx, c, 0, 2_000)).toThrow();
+    expect(c.waitBudget.itemMs.get(0)).toBeUndefined();
+    expect(c.waitBudget.executionMs).toBe(0);
+  });
+});
+
+// ── retryAfterConnectionError ─────────────────────────────────────────────────
+
+describe("retryAfterConnectionError", () => {
+  const reset = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+  const req = (method: IHttpRequestOptions["method"], headers = {}): IHttpRequestOptions => ({
+    method, url: "https://api.example.com", headers,
+  });
+  const retryConfig = (overrides: Partial<ThrottleConfig> = {}) =>
+    ({
+      ...config(0, 0),
+      defaultWaitMs: 0,
+      jitterPercent: 0,
+      maxWaitMs: 300_000,
+      backoff: { strategy: "fixed", multiplier: 2, maxMs: 0 },
+      retryConnectionErrors: true,
+      connectionErrorCodes: new Set(DEFAULT_CONNECTION_ERROR_CODES),
+      maxConnectionRetries: 2,
+      connectionRetryAllMethods: false,
+      idempotencyKeyHeader: "Idempotency-Key",
+      ...overrides,
+    }) as ThrottleConfig;
+
+  it("wiederholt idempotente Requests nach Verbindungsfehlern", async () => {
+    expect(await retryAfterConnectionError(ctx, retryConfig(), 0, req("GET"), reset, 0)).toBe(0);
+  });
+
+  it("gibt null zurück, wenn deaktiviert oder die Versuche aufgebraucht sind", async () => {
+    expect(await retryAfterConnectionError(ctx, retryConfig({ retryConnectionErrors: false }), 0, req("GET"), reset, 0)).toBeNull();
+    expect(await retryAfterConnectionError(ctx, retryConfig(), 0, req("GET"), reset, 2)).toBeNull();
+  });
+
+  it("wiederholt POST nur, wenn alle Methoden erlaubt sind", async () => {
+    expect(await retryAfterConnectionError(ctx, retryConfig(), 0, req("POST"), reset, 0)).toBeNull();
+    expect(
+      await retryAfterConnectionError(ctx, retryConfig({ connectionRetryAllMethods: true }), 0, req("POST"), reset, 0)
+    ).toBe(0);
+  });
+
+  it("wiederholt POST mit Idempotency-Key", async () => {
+    expect(
+      await retryAfterConnectionError(ctx, retryConfig(), 0, req("POST", { "Idempotency-Key": "abc" }), reset, 0)
+    ).toBe(0);
+  });
+
+  it("ignoriert andere Fehler", async () => {
+    expect(await retryAfterConnectionError(ctx, retryConfig(), 0, req("GET"), new Error("Invalid URL"), 0)).toBeNull();
+  });
+});
+
+// ── withConcurrencySlot ───────────────────────────────────────────────────────
+
+describe("withConcurrencySlot", () => {
+  const bucket = (): BucketRef => ({
+    store: new MemoryThrottleStore(),
+    key: "local",
+    settings: { requestsPerInterval: 0, intervalMs: 1_000, burstSize: 0 },
+  });
+
+  const track = () => {
+    let inFlight = 0;
+    let peak = 0;
+    const task = async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((r) => setTimeout(r, 20));
+      inFlight--;
+    };
+    return { task, peak: () => peak };
+  };
+
+  it("begrenzt die gleichzeitig laufenden Requests", async () => {
+    const b = bucket();
+    const t = track();
+    await Promise.all(Array.from({ length: 6 }, () => withConcurrencySlot(ctx, b, 2, t.task)));
+    expect(t.peak()).toBe(2);
+  });
+
+  it("ist ohne Limit ein Durchreichen", async () => {
+    const t = track();
+    await Promise.all(Array.from({ length: 4 }, () => withConcurrencySlot(ctx, bucket(), 0, t.task)));
+    expect(t.peak()).toBe(4);
+  });
+
+  it("gibt den Slot auch bei Fehlern frei", async () => {
+    const b = bucket();
+    await expect(withConcurrencySlot(ctx, b, 1, async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    await expect(withConcurrencySlot(ctx, b, 1, async () => "ok")).resolves.toBe("ok");
+  });
+
+  it("behält das Ergebnis, wenn die Freigabe scheitert, und protokolliert sie", async () => {
+    const b = bucket();
+    b.store.releaseLease = async () => {
+      throw new ThrottleStoreError("Redis throttle store failed: read ECONNRESET");
+    };
+    const warn = jest.fn();
+    const warnCtx = { ...ctx, logger: { ...ctx.logger, warn } } as unknown as IExecuteFunctions;
+
+    await expect(withConcurrencySlot(warnCtx, b, 1, async () => "ok")).resolves.toBe("ok");
+    await expect(withConcurrencySlot(warnCtx, b, 2, async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls[0][0]).toMatch(/Could not release concurrency slot.*read ECONNRESET/);
+  });
+});
+
+// ── enterCircuit ──────────────────────────────────────────────────────────────
+
+describe("enterCircuit", () => {
+  const circuitConfig = (threshold: number) =>
+    ({ circuitBreaker: { threshold, cooldownMs: 60_000 } }) as unknown as ThrottleConfig;
+
+  it("ist ohne Schwelle deaktiviert", () => {
+    expect(enterCircuit(ctx, circuitConfig(0), "https://off.example.com/x", 0)).toBeNull();
+  });
+
+  it("lässt Requests fehlschlagen, sobald der Circuit offen ist", () => {
+    const c = circuitConfig(2);
+    const url = "https://down.example.com/items";
+    tripCircuit(ctx, c, enterCircuit(ctx, c, url, 0), 0);
+    expect(tripCircuit(ctx, c, enterCircuit(ctx, c, url, 1), 1)).toBe(true);
+    expect(() => enterCircuit(ctx, c, url, 2)).toThrow(/Circuit breaker open for down\.example\.com/);
+  });
+
+  it("trennt Hosts voneinander", () => {
+    const c = circuitConfig(1);
+    tripCircuit(ctx, c, enterCircuit(ctx, c, "https://a.down.example.com", 0), 0);
+    expect(enterCircuit(ctx, c, "https://b.up.example.com", 1)).not.toBeNull();
+  });
+});
+
+// ── attachThrottleMetadata ────────────────────────────────────────────────────
+
+describe("attachThrottleMetadata", () => {
+  const metaConfig = () =>
+    ({ headerMappings: [], metadata: new Map() }) as unknown as ThrottleConfig;
+
+  it("fasst Versuche und Wartezeiten pro Item zusammen", () => {
+    const c = metaConfig();
+    recordAttempt(c, 0, 429, { "Retry-After": "2" }, null);
+    recordWait(c, 0, 2_000.4, "retryAfter");
+    recordAttempt(c, 0, 200, { "X-RateLimit-Remaining": "41" }, null);
+
+    const [[item]] = attachThrottleMetadata([[{ json: { id: 1 }, pairedItem: { item: 0 } }]], c);
+    expect(item.json).toEqual({
+      id: 1,
+      $throttling: { attempts: 2, totalWaitMs: 2_000, lastStatus: 200, waitSource: "retryAfter", remaining: 41 },
+    });
+  });
+
+  it("zählt Versuche ohne Response ohne den letzten Status zu ändern", () => {
+    const c = metaConfig();
+    recordAttempt(c, 0, null, {}, null);
+    recordWait(c, 0, 500, "connectionError");
+    const [[item]] = attachThrottleMetadata([[{ json: {}, pairedItem: 0 }]], c);
+    expect(item.json.$throttling).toMatchObject({ attempts: 1, lastStatus: null, waitSource: "connectionError" });
+  });
+
+  it("lässt Items ohne Requests unverändert", () => {
+    const c = metaConfig();
+    recordAttempt(c, 0, 200, {}, null);
+    const input = { json: { id: 2 }, pairedItem: [{ item: 1 }] };
+    expect(attachThrottleMetadata([[input]], c)[0][0]).toBe(input);
+  });
+});
+
+// ── routeExhaustedItems ───────────────────────────────────────────────────────
+
+describe("routeExhaustedItems", () => {
+  const exhaustedConfig = () =>
+    ({ maxRetries: 5, exhausted: new Map() }) as unknown as ThrottleConfig;
+  const response = { statusCode: 429, headers: { "retry-after": "60" }, body: Buffer.from('{"message":"slow down"}') };
+
+  it("beschreibt die letzte Response und den nächsten erlaubten Zeitpunkt", () => {
+    const c = exhaustedConfig();
+    const before = Date.now();
+    const exhaustion = recordExhaustion(c, 0, response, 60_000);
+    const json = exhaustedItemJson(c, exhaustion);
+
+    expect(json).toMatchObject({
+      error: "Throttling: max retries (5) exceeded. Last status: 429",
+      statusCode: 429,
+      body: { message: "slow down" },
+    });
+    expect(Date.parse(json.nextAllowedAt as string)).toBeGreaterThanOrEqual(before + 60_000);
+  });
+
+  it("verschiebt Items mit ausgeschöpften Retries in den zweiten Ausgang", () => {
+    const c = exhaustedConfig();
+    recordExhaustion(c, 1, response, 1_000);
+    const ok = { json: { id: 0 }, pairedItem: { item: 0 } };
+
+    const [success, throttled] = routeExhaustedItems([[
+      ok,
+      { json: { message: "slow down" }, pairedItem: { item: 1 } },
+      { json: { message: "split" }, pairedItem: { item: 1 } },
+    ]], c);
+
+    expect(success).toEqual([ok]);
+    expect(throttled).toHaveLength(1);
+    expect(throttled[0].pairedItem).toEqual({ item: 1 });
+    expect(throttled[0].json.statusCode).toBe(429);
+  });
+
+  it("behält die Seiten einer abgebrochenen Pagination im Erfolgsausgang", () => {
+    const c = exhaustedConfig();
+    c.exhausted.set(0, {
+      ...recordExhaustion(c, 0, response, 1_000),
+      pagesFetched: 2,
+      resumeRequest: { url: "https://api.example.com/items", qs: { page: 3 } },
+    });
+    const pages = [
+      { json: { page: 1 }, pairedItem: { item: 0 } },
+      { json: { page: 2 }, pairedItem: { item: 0 } },
+    ];
+
+    const [success, throttled] = routeExhaustedItems([pages], c);
+    expect(success).toEqual(pages);
+    expect(throttled).toHaveLength(1);
+    expect(throttled[0].json).toMatchObject({ pagesFetched: 2, resumeRequest: { qs: { page: 3 } } });
+  });
+});
+
+// ── deferredItem ──────────────────────────────────────────────────────────────
+
+describe("deferredItem", () => {
+  const deferConfig = () =>
+    ({ maxRetries: 5, deferWaitsAboveMs: 60_000, exhausted: new Map(), eventLogFile: "" }) as unknown as ThrottleConfig;
+
+  it("gibt das unveränderte Eingabe-Item mit dem nächsten erlaubten Zeitpunkt aus", () => {
+    const c = deferConfig();
+    const deferral = recordDeferral(ctx, c, 1, "api.example.com", null, Date.parse("2026-10-19T14:32:00Z"));
+    const input = { json: { id: 7 }, binary: { data: { data: "", mimeType: "text/plain" } } };
+
+    expect(deferredItem(deferral, 1, input)).toEqual({
+      json: { id: 7, $deferred: { nextAllowedAt: "2026-10-19T14:32:00.000Z", statusCode: null } },
+      binary: input.binary,
+      pairedItem: { item: 1 },
+    });
+  });
+
+  it("ersetzt die Ausgabe zurückgestellter Items durch das Eingabe-Item", () => {
+    const c = deferConfig();
+    recordDeferral(ctx, c, 0, "api.example.com", { statusCode: 429, headers: {}, body: "" }, Date.now() + 120_000);
+    const inputs = [{ json: { id: 1 } }, { json: { id: 2 } }];
+    const ok = { json: { id: 2, done: true }, pairedItem: { item: 1 } };
+
+    const [success, throttled] = routeExhaustedItems(
+      [[{ json: { message: "Deferred" }, pairedItem: { item: 0 } }, ok]], c, inputs,
+    );
+    expect(success).toEqual([ok]);
+    expect(throttled[0].json).toMatchObject({ id: 1, $deferred: { statusCode: 429 } });
+  });
+});
+
+const fullConfig = (overrides: Partial<ThrottleConfig> = {}) => {
+  const store = new MemoryThrottleStore();
+  return {
+    codes: new Set(["429"]),
+    defaultWaitMs: 1,
+    jitterPercent: 0,
+    maxRetries: 2,
+    rateLimit: { requestsPerInterval: 0, intervalMs: 1_000, burstSize: 0 },
+    urlRules: [],
+    slowdownThreshold: 0,
+    paginationPacing: false,
+    bucketScope: "none",
+    bucketKey: "",
+    sharedStore: store,
+    localStore: store,
+    provider: "none",
+    headerMappings: [],
+    bodyRules: [],
+    backoff: { strategy: "fixed", multiplier: 2, maxMs: 60_000 },
+    maxWaitMs: 300_000,
+    maxItemWaitMs: 0,
+    maxExecutionWaitMs: 0,
+    waitBudget: { executionMs: 0, itemMs: new Map() },
+    retryConnectionErrors: false,
+    connectionErrorCodes: new Set(DEFAULT_CONNECTION_ERROR_CODES),
+    maxConnectionRetries: 3,
+    connectionRetryAllMethods: false,
+    methodRetryPolicy: "safe",
+    idempotencyKey: false,
+    idempotencyKeyHeader: "Idempotency-Key",
+    maxConcurrent: 0,
+    circuitBreaker: { threshold: 0, cooldownMs: 60_000 },
+    metadata: new Map(),
+    throttledOutput: false,
+    deferWaitsAboveMs: 0,
+    exhausted: new Map(),
+    passThrottledResponses: true,
+    eventLogFile: "",
+    ...overrides,
+  } as unknown as ThrottleConfig;
+};
+
+// ── wrapHelpersWithThrottling (Pagination) ────────────────────────────────────
+
+describe("wrapHelpersWithThrottling (Pagination)", () => {
+  interface FakeResponse {
+    statusCode: number;
+    headers: Record<string, string>;
+    body: { next?: boolean };
+  }
+
+  // Like n8n's pagination loop: pages are sent through this.helpers.request
+  async function paginate(
+    this: IExecuteFunctions,
+    requestOptions: IRequestOptions,
+    _itemIndex: number,
+    _pagination: PaginationOptions,
+  ): Promise<FakeResponse[]> {
+    const pages: FakeResponse[] = [];
+    for (let page = 1; ; page++) {
+      const response: FakeResponse = await this.helpers.request({
+        ...requestOptions,
+        qs: { page },
+        resolveWithFullResponse: true,
+        simple: false,
+      });
+      if (response.statusCode >= 300) throw new Error(`Request failed with status ${response.statusCode}`);
+      pages.push(response);
+      if (!response.body.next) return pages;
+    }
+  }
+
+  const setup = (script: FakeResponse[]) => {
+    const sent: IRequestOptions[] = [];
+    const helpers = {
+      httpRequest: jest.fn(),
+      httpRequestWithAuthentication: jest.fn(),
+      request: jest.fn(async (options: IRequestOptions) => {
+        sent.push(options);
+        return script.shift() ?? { statusCode: 200, headers: {}, body: {} };
+      }),
+      requestWithAuthentication: jest.fn(),
+      requestWithAuthenticationPaginated: paginate,
+    };
+    const pageCtx = {
+      ...ctx,
+      getNodeParameter: () => undefined,
+      helpers,
+    } as unknown as IExecuteFunctions;
+    const run = () =>
+      pageCtx.helpers.requestWithAuthenticationPaginated.call(
+        pageCtx,
+        { uri: "https://api.example.com/items", method: "GET" },
+        0,
+        {} as PaginationOptions,
+      );
+    return { pageCtx, sent, run };
+  };
+
+  const ok = (next: boolean, headers: Record<string, string> = {}): FakeResponse =>
+    ({ statusCode: 200, headers, body: { next } });
+  const throttled = (): FakeResponse => ({ statusCode: 429, headers: {}, body: {} });
+
+  it("wiederholt eine gedrosselte Seite und setzt die Pagination dort fort", async () => {
+    const { pageCtx, sent, run } = setup([ok(true), throttled(), ok(true), ok(false)]);
+    wrapHelpersWithThrottling(pageCtx, fullConfig());
+
+    const pages = await run();
+    expect(pages).toHaveLength(3);
+    expect(sent.map((o) => o.qs?.page)).toEqual([1, 2, 2, 3]);
+  });
+
+  it("behält die bisherigen Seiten, wenn die Retries einer Seite ausgehen", async () => {
+    const c = fullConfig({ throttledOutput: true, maxRetries: 1 });
+    const { pageCtx, run } = setup([ok(true), ok(true), throttled(), throttled()]);
+    wrapHelpersWithThrottling(pageCtx, c);
+
+    const pages = await run();
+    expect(pages).toHaveLength(2);
+    expect(c.exhausted.get(0)).toMatchObject({
+      statusCode: 429,
+      pagesFetched: 2,
+      resumeRequest: { url: "https://api.example.com/items", qs: { page: 3 } },
+    });
+  });
+
+  it("gibt die Throttle-Response weiter, wenn schon die erste Seite scheitert", async () => {
+    const c = fullConfig({ throttledOutput: true, maxRetries: 1 });
+    const { pageCtx, run } = setup([throttled(), throttled()]);
+    wrapHelpersWithThrottling(pageCtx, c);
+
+    const pages = await run();
+    expect(pages).toEqual([throttled()]);
+    expect(c.exhausted.get(0)?.pagesFetched).toBeUndefined();
+  });
+
+  it("wirft ohne Throttled-Ausgang wie bisher", async () => {
+    const { pageCtx, run } = setup([ok(true), throttled(), throttled()]);
+    wrapHelpersWithThrottling(pageCtx, fullConfig({ maxRetries: 1 }));
+
+    await expect(run()).rejects.toThrow(/max retries \(1\) exceeded/);
+  });
+
+  it("stellt eine lange Wartezeit zurück und sendet folgende Requests nicht mehr", async () => {
+    const c = fullConfig({ throttledOutput: true, deferWaitsAboveMs: 60_000 });
+    const { pageCtx } = setup([]);
+    const httpRequest = jest.fn(async () => ({ statusCode: 429, headers: { "retry-after": "120" }, body: "" }));
+    (pageCtx.helpers as unknown as { httpRequest: unknown }).httpRequest = httpRequest;
+    wrapHelpersWithThrottling(pageCtx, c);
+
+    const get = { method: "GET" as const, url: "https://api.example.com/items" };
+    pageCtx.getNodeParameter("url", 0);
+    await pageCtx.helpers.httpRequest(get);
+    pageCtx.getNodeParameter("url", 1);
+    expect(await pageCtx.helpers.httpRequest(get)).toEqual({ message: expect.stringMatching(/^Deferred/) });
+
+    expect(httpRequest).toHaveBeenCalledTimes(1);
+    expect(c.exhausted.get(0)).toMatchObject({ deferred: true, statusCode: 429 });
+    expect(c.exhausted.get(1)).toMatchObject({ deferred: true, statusCode: null });
+  });
+
+  it("taktet die Seiten nach dem gemeldeten Restkontingent", async () => {
+    // 9 Requests in 1s übrig → 100ms zwischen den Seiten
+    const quota = { RateLimit: '"default";r=9;t=1' };
+    const { pageCtx, run } = setup([ok(true, quota), ok(true, quota), ok(false, quota)]);
+    wrapHelpersWithThrottling(pageCtx, fullConfig({ paginationPacing: true }));
+
+    const started = Date.now();
+    await run();
+    expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+  });
+});
+
+// ── wrapHelpersWithThrottling (Throttled-Ausgang) ────────────────────────────
+
+describe("wrapHelpersWithThrottling (Throttled-Ausgang)", () => {
+  const get = { method: "GET" as const, url: "https://api.example.com/items" };
+
+  const setup = (script: unknown[]) => {
+    const httpRequest = jest.fn(async () => script.shift() ?? { statusCode: 200, headers: {}, body: { id: 1 } });
+    const helpers = { httpRequest, httpRequestWithAuthentication: jest.fn() };
+    const outputCtx = { ...ctx, getNodeParameter: () => undefined, helpers } as unknown as IExecuteFunctions;
+    return { outputCtx, httpRequest };
+  };
+
+  // Wie ein Basis-Node mit continueOnFail: Fehler werden zu Items des Eingabe-Items
+  const runItems = async (outputCtx: IExecuteFunctions, count: number) => {
+    const items = [];
+    for (let itemIndex = 0; itemIndex < count; itemIndex++) {
+      outputCtx.getNodeParameter("url", itemIndex);
+      try {
+        items.push({ json: await outputCtx.helpers.httpRequest(get), pairedItem: { item: itemIndex } });
+      } catch (err) {
+        items.push({ json: { error: (err as Error).message }, pairedItem: { item: itemIndex } });
+      }
+    }
+    return items;
+  };
+
+  it("gibt anderen Nodes statt einer Ersatz-Response einen Fehler und stellt die Items trotzdem zurück", async () => {
+    const c = fullConfig({ throttledOutput: true, deferWaitsAboveMs: 60_000, passThrottledResponses: false });
+    const { outputCtx, httpRequest } = setup([{ statusCode: 429, headers: { "retry-after": "120" }, body: "" }]);
+    wrapHelpersWithThrottling(outputCtx, c);
+
+    const items = await runItems(outputCtx, 2);
+    expect(items.map((item) => item.json.error)).toEqual([
+      expect.stringMatching(/item deferred$/),
+      expect.stringMatching(/item deferred$/),
+    ]);
+    expect(httpRequest).toHaveBeenCalledTimes(1);
+
+    const inputs = [{ json: { id: 1 } }, { json: { id: 2 } }];
+    const [success, throttled] = routeExhaustedItems([items], c, inputs);
+    expect(success).toEqual([]);
+    expect(throttled.map((item) => item.json)).toEqual([
+      { id: 1, $deferred: expect.objectContaining({ statusCode: 429 }) },
+      { id: 2, $deferred: expect.objectContaining({ statusCode: null }) },
+    ]);
+  });
+
+  it("wirft bei ausgeschöpften Retries für andere Nodes und leitet das Item um", async () => {
+    const c = fullConfig({ throttledOutput: true, maxRetries: 1, passThrottledResponses: false });
+    const throttled = { statusCode: 429, headers: {}, body: { message: "slow down" } };
+    const { outputCtx } = setup([throttled, throttled]);
+    wrapHelpersWithThrottling(outputCtx, c);
+
+    const items = await runItems(outputCtx, 2);
+    expect(items[0].json.error).toMatch(/max retries \(1\) exceeded/);
+
+    const [success, failed] = routeExhaustedItems([items], c);
+    expect(success).toEqual([items[1]]);
+    expect(failed[0].json).toMatchObject({ statusCode: 429, body: { message: "slow down" } });
+  });
+
+  it("gibt dem HTTP Request Node die Throttle-Response weiter", async () => {
+    const c = fullConfig({ throttledOutput: true, maxRetries: 1 });
+    const throttled = { statusCode: 429, headers: {}, body: { message: "slow down" } };
+    const { outputCtx } = setup([throttled, throttled]);
+    wrapHelpersWithThrottling(outputCtx, c);
+
+    expect(await outputCtx.helpers.httpRequest(get)).toEqual({ message: "slow down" });
+    expect(c.exhausted.get(0)).toMatchObject({ statusCode: 429 });
+  });
+});
+
+// ── wrapHelpersWithThrottling (Circuit Breaker) ──────────────────────────────
+
+describe("wrapHelpersWithThrottling (Circuit Breaker)", () => {
+  const setup = (send: (options: IHttpRequestOptions) => Promise<unknown>, cooldownMs = 60_000) => {
+    const helpers = {
+      httpRequest: jest.fn(send),
+      httpRequestWithAuthentication: jest.fn(async () => {
+        throw new Error("Credentials not found");
+      }),
+    };
+    const circuitCtx = { ...ctx, getNodeParameter: () => undefined, helpers } as unknown as IExecuteFunctions;
+    wrapHelpersWithThrottling(circuitCtx, fullConfig({ circuitBreaker: { threshold: 2, cooldownMs } }));
+    return circuitCtx;
+  };
+
+  it("zählt Fehler ohne Verbindungsfehler-Code nicht als Ausfall des Hosts", async () => {
+    const url = "https://credentials.circuit.example.com/items";
+    const circuitCtx = setup(async () => ({ statusCode: 200, headers: {}, body: { id: 1 } }));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(circuitCtx.helpers.httpRequestWithAuthentication.call(circuitCtx, "httpHeaderAuth", { url }))
+        .rejects.toThrow(/Credentials not found/);
+    }
+    expect(getCircuitBreaker("credentials.circuit.example.com").getState()).toBe("closed");
+    expect(await circuitCtx.helpers.httpRequest({ url })).toEqual({ id: 1 });
+  });
+
+  it("öffnet den Circuit nach Verbindungsfehlern", async () => {
+    const url = "https://reset.circuit.example.com/items";
+    const circuitCtx = setup(async () => {
+      throw Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+    });
+
+    await expect(circuitCtx.helpers.httpRequest({ url })).rejects.toThrow(/socket hang up/);
+    await expect(circuitCtx.helpers.httpRequest({ url })).rejects.toThrow(/socket hang up/);
+    await expect(circuitCtx.helpers.httpRequest({ url })).rejects.toThrow(/Circuit breaker open/);
+  });
+
+  it("schließt einen halboffenen Circuit nur bei erfolgreicher Response", async () => {
+    const url = "https://probe.circuit.example.com/items";
+    const breaker = getCircuitBreaker("probe.circuit.example.com");
+    const settings = { threshold: 2, cooldownMs: 0 };
+    breaker.recordFailure(settings);
+    breaker.recordFailure(settings);
+    const script = [{ statusCode: 500, headers: {}, body: "boom" }, { statusCode: 200, headers: {}, body: "ok" }];
+    const circuitCtx = setup(async () => script.shift(), 0);
+
+    await circuitCtx.helpers.httpRequest({ url, ignoreHttpStatusErrors: true });
+    expect(breaker.getState()).toBe("halfOpen");
+    await circuitCtx.helpers.httpRequest({ url });
+    expect(breaker.getState()).toBe("closed");
+  });
+});
+
+// ── wrapHelpersWithThrottling (Store-Fehler) ─────────────────────────────────
+
+describe("wrapHelpersWithThrottling (Store-Fehler)", () => {
+  it("behandelt Store-Fehler nicht als Verbindungsfehler des Hosts", async () => {
+    const url = "https://store.circuit.example.com/items";
+    const store = new MemoryThrottleStore();
+    store.acquireLease = async () => {
+      throw new ThrottleStoreError("Redis throttle store failed: connect ECONNREFUSED 127.0.0.1:6379");
+    };
+    const httpRequest = jest.fn(async () => ({ statusCode: 200, headers: {}, body: { id: 1 } }));
+    const storeCtx = {
+      ...ctx,
+      getNodeParameter: () => undefined,
+      helpers: { httpRequest, httpRequestWithAuthentication: jest.fn() },
+    } as unknown as IExecuteFunctions;
+    wrapHelpersWithThrottling(storeCtx, fullConfig({
+      sharedStore: store,
+      localStore: store,
+      maxConcurrent: 1,
+      retryConnectionErrors: true,
+      circuitBreaker: { threshold: 1, cooldownMs: 60_000 },
+    }));
+
+    await expect(storeCtx.helpers.httpRequest({ url })).rejects.toMatchObject({
+      message: "Throttling: bucket store unavailable",
+      description: "Redis throttle store failed: connect ECONNREFUSED 127.0.0.1:6379",
+    });
+    expect(httpRequest).not.toHaveBeenCalled();
+    expect(getCircuitBreaker("store.circuit.example.com").getState()).toBe("closed");
+  });
+});
+
+// ── wrapHelpersWithThrottling (Methoden) ─────────────────────────────────────
+
+describe("wrapHelpersWithThrottling (Methoden)", () => {
+  const url = "https://api.example.com/orders";
+
+  const setup = (script: { statusCode: number; headers: Record<string, string>; body: unknown }[]) => {
+    const httpRequest = jest.fn(async (_options: IHttpRequestOptions) =>
+      script.shift() ?? { statusCode: 200, headers: {}, body: { id: 1 } });
+    const methodCtx = {
+      ...ctx,
+      getNodeParameter: () => undefined,
+      helpers: { httpRequest, httpRequestWithAuthentication: jest.fn() },
+    } as unknown as IExecuteFunctions;
+    return { methodCtx, httpRequest };
+  };
+  const unavailable = { statusCode: 503, headers: {}, body: { message: "busy" } };
+
+  it("wiederholt einen POST mit 503 nicht und wirft die Response als NodeApiError", async () => {
+    const { methodCtx, httpRequest } = setup([unavailable]);
+    wrapHelpersWithThrottling(methodCtx, fullConfig({ codes: new Set(["429", "503"]) }));
+
+    const error = await methodCtx.helpers.httpRequest({ method: "POST", url, body: { a: 1 } })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(NodeApiError);
+    expect((error as NodeApiError).httpCode).toBe("503");
+    expect(httpRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("wiederholt einen POST mit Idempotency-Key und sendet bei jedem Versuch denselben Key", async () => {
+    const { methodCtx, httpRequest } = setup([unavailable, unavailable]);
+    wrapHelpersWithThrottling(methodCtx, fullConfig({ codes: new Set(["429", "503"]), idempotencyKey: true }));
+
+    expect(await methodCtx.helpers.httpRequest({ method: "POST", url, body: { a: 1 } })).toEqual({ id: 1 });
+    expect(httpRequest).toHaveBeenCalledTimes(3);
+    const keys = httpRequest.mock.calls.map(([options]) => options.headers?.["Idempotency-Key"]);
+    expect(keys[0]).toEqual(expect.any(String));
+    expect(new Set(keys).size).toBe(1);
+  });
+
+  it("wiederholt einen PATCH mit 429 auch mit der Richtlinie safe", async () => {
+    const { methodCtx, httpRequest } = setup([{ statusCode: 429, headers: {}, body: "" }]);
+    wrapHelpersWithThrottling(methodCtx, fullConfig({ methodRetryPolicy: "safe" }));
+
+    expect(await methodCtx.helpers.httpRequest({ method: "PATCH", url, body: { a: 1 } })).toEqual({ id: 1 });
+    expect(httpRequest).toHaveBeenCalledTimes(2);
+    expect(httpRequest.mock.calls[0][0].headers?.["Idempotency-Key"]).toBeUndefined();
+  });
+});
+
+// ── wrapHelpersWithThrottling (Legacy-Helper) ─────────────────────────────────
+
+describe("wrapHelpersWithThrottling (Legacy-Helper)", () => {
+  const throttledResponse = { statusCode: 429, headers: {}, body: "slow down" };
+  const okResponse = { statusCode: 200, headers: { "x-a": "1" }, body: { id: 1 } };
+
+  const setup = (script: unknown[]) => {
+    const request = jest.fn(async (_options: IRequestOptions) => script.shift() ?? okResponse);
+    const requestOAuth2 = jest.fn(async function (
+      this: IExecuteFunctions, _type: string, options: IRequestOptions,
+    ) {
+      // Like n8n-core: the OAuth2 helper sends through this.helpers.request
+      expect(this.helpers.request).toBe(request);
+      return this.helpers.request(options);
+    });
+    const helpers = {
+      httpRequest: jest.fn(),
+      httpRequestWithAuthentication: jest.fn(),
+      request,
+      requestWithAuthentication: jest.fn(async function (
+        this: IExecuteFunctions, _type: string, options: IRequestOptions,
+      ) {
+        return this.helpers.request(options);
+      }),
+      requestOAuth1: jest.fn(),
+      requestOAuth2,
+    };
+    const legacyCtx = { ...ctx, getNodeParameter: () => undefined, helpers } as unknown as IExecuteFunctions;
+    return { legacyCtx, request, requestOAuth2 };
+  };
+
+  it("wiederholt request(uri, options) und liefert nur den Body", async () => {
+    const { legacyCtx, request } = setup([throttledResponse]);
+    wrapHelpersWithThrottling(legacyCtx, fullConfig());
+
+    expect(await legacyCtx.helpers.request("https://api.example.com/items", { method: "GET" }))
+      .toEqual({ id: 1 });
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request.mock.calls[0][0]).toMatchObject({
+      uri: "https://api.example.com/items", resolveWithFullResponse: true, simple: false,
+    });
+  });
+
+  it("liefert mit resolveWithFullResponse die ganze Response", async () => {
+    const { legacyCtx } = setup([throttledResponse]);
+    wrapHelpersWithThrottling(legacyCtx, fullConfig());
+
+    const response = await legacyCtx.helpers.requestWithAuthentication.call(
+      legacyCtx, "httpHeaderAuth", { uri: "https://api.example.com/items", resolveWithFullResponse: true },
+    );
+    expect(response).toEqual(okResponse);
+  });
+
+  it("drosselt OAuth2-Requests einmal, nicht auch den inneren request", async () => {
+    const { legacyCtx, request, requestOAuth2 } = setup([throttledResponse, throttledResponse]);
+    wrapHelpersWithThrottling(legacyCtx, fullConfig({ maxRetries: 1, throttledOutput: true }));
+
+    const body = await legacyCtx.helpers.requestOAuth2.call(
+      legacyCtx, "oAuth2Api", { uri: "https://api.example.com/items" },
+    );
+    // Beide Versuche gedrosselt: die Retries gehen aus, der innere request wiederholt nicht selbst
+    expect(body).toBe("slow down");
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(requestOAuth2).toHaveBeenCalledTimes(2);
+  });
+
+  it("wirft bei anderen Fehlerstatus wie request-promise", async () => {
+    const { legacyCtx, request } = setup([]);
+    request.mockImplementation(async (options: IRequestOptions) => {
+      if (options.simple === false) return { statusCode: 500, headers: {}, body: "boom" };
+      throw new Error("500 - boom");
+    });
+    wrapHelpersWithThrottling(legacyCtx, fullConfig());
+
+    await expect(
+      legacyCtx.helpers.request({ uri: "https://api.example.com/items", method: "GET" }),
+    ).rejects.toThrow(/500 - boom/);
+    expect(request.mock.calls[1][0].simple).toBe(true);
+  });
+});
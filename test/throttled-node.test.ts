@@ -0,0 +1,206 @@
+// test/throttled-node.test.ts
+
+import type {
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+  INodeTypeDescription,
+} from "n8n-workflow";
+import { filterToVersion, createThrottledNode } from "../src/nodes/HttpRequest/throttled-node";
+import { nodeBaseModules } from "../src/nodes/HttpRequest/node-loader";
+
+const mockDemo = {
+  installed: true,
+  // typeVersion, das der Basis-Node bei der Ausführung sieht
+  seenVersion: undefined as number | undefined,
+  // Ruft pro Item die API auf, Fehler werden wie bei continueOnFail zu Items
+  sendsRequests: false,
+  // Was der Basis-Node pro Item erhalten hat
+  received: [] as unknown[],
+};
+
+jest.mock(
+  "n8n-nodes-base/dist/nodes/Demo/Demo.node",
+  () => ({
+    get Demo() {
+      if (!mockDemo.installed) return undefined;
+      return class Demo {
+        description = {
+          displayName: "Demo",
+          name: "demo",
+          group: ["output"],
+          version: [1, 2],
+          subtitle: "={{$parameter[\"operation\"]}}",
+          description: "Talks to the Demo API",
+          defaults: { name: "Demo", color: "#123456" },
+          inputs: ["main"],
+          outputs: ["main"],
+          credentials: [{ name: "demoApi", required: true }],
+          properties: [
+            { displayName: "Operation", name: "operation", type: "options", default: "get",
+              displayOptions: { show: { "@version": [1] } } },
+            { displayName: "Operation", name: "operation", type: "options", default: "getAll",
+              displayOptions: { show: { "@version": [2] } } },
+          ],
+        };
+        methods = { loadOptions: { getProjects: async () => [] } };
+        async execute(this: IExecuteFunctions) {
+          mockDemo.seenVersion = this.getNode().typeVersion;
+          if (!mockDemo.sendsRequests) return [[{ json: { ok: true } }]];
+          const items = [];
+          for (let i = 0; i < this.getInputData().length; i++) {
+            const url = this.getNodeParameter("url", i, "https://demo.example.com/items") as string;
+            try {
+              items.push({ json: await this.helpers.httpRequest({ url }), pairedItem: { item: i } });
+            } catch (err) {
+              items.push({ json: { error: (err as Error).message }, pairedItem: { item: i } });
+            }
+            mockDemo.received.push(items[i].json);
+          }
+          return [items];
+        }
+      };
+    },
+  }),
+  { virtual: true },
+);
+
+const demoOptions = {
+  name: "demoThrottled",
+  displayName: "Demo (Throttled)",
+  baseName: "Demo",
+  modules: nodeBaseModules("Demo/Demo.node", "Demo"),
+};
+
+const execCtx = (
+  throttling: Record<string, unknown> | null = null,
+  inputs: { json: Record<string, unknown> }[] = [{ json: {} }],
+  httpRequest = jest.fn(),
+) => {
+  const info = jest.fn();
+  const ctx = {
+    getNode: () => ({ name: "Demo (Throttled)", type: "test", typeVersion: 1, parameters: {} }),
+    getNodeParameter: (name: string, _i: number, fallback: unknown) =>
+      name === "throttlingEnabled" ? throttling !== null
+        : name === "throttling" ? throttling
+          : fallback,
+    getInputData: () => inputs,
+    evaluateExpression: () => "",
+    logger: { debug: () => {}, info, warn: () => {} },
+    helpers: { httpRequest },
+  } as unknown as IExecuteFunctions;
+  return { ctx, info };
+};
+
+// ── filterToVersion ───────────────────────────────────────────────────────────
+
+describe("filterToVersion", () => {
+  const prop = (name: string, displayOptions?: INodeProperties["displayOptions"]): INodeProperties =>
+    ({ displayName: name, name, type: "string", default: "", ...(displayOptions && { displayOptions }) });
+
+  it("behält nur Eigenschaften der Zielversion und entfernt die @version-Bedingung", () => {
+    const result = filterToVersion([
+      prop("a"),
+      prop("b", { show: { "@version": [3] } }),
+      prop("c", { show: { "@version": [4.2], method: ["POST"] } }),
+      prop("d", { hide: { "@version": [4.2] } }),
+    ], 4.2);
+    expect(result).toEqual([
+      prop("a"),
+      prop("c", { show: { method: ["POST"] } }),
+    ]);
+  });
+
+  it("filtert auch die Werte von Collections", () => {
+    const [collection] = filterToVersion([{
+      ...prop("options"),
+      type: "collection",
+      options: [{ displayName: "Group", name: "group", values: [prop("x", { show: { "@version": [1] } }), prop("y")] }],
+    } as INodeProperties], 2);
+    expect(collection.options).toEqual([{ displayName: "Group", name: "group", values: [prop("y")] }]);
+  });
+});
+
+// ── createThrottledNode ───────────────────────────────────────────────────────
+
+describe("createThrottledNode", () => {
+  afterEach(() => {
+    mockDemo.installed = true;
+    mockDemo.seenVersion = undefined;
+    mockDemo.sendsRequests = false;
+    mockDemo.received = [];
+  });
+
+  it("übernimmt Parameter, Zugangsdaten und Methoden des Basis-Nodes", () => {
+    const node = new (createThrottledNode(demoOptions))();
+    const { description } = node;
+    expect(description).toMatchObject({
+      name: "demoThrottled",
+      displayName: "Demo (Throttled)",
+      version: 1,
+      group: ["output"],
+      description: "Talks to the Demo API",
+      defaults: { name: "Demo (Throttled)", color: "#123456" },
+      credentials: [{ name: "demoApi", required: true }],
+    });
+    const operations = description.properties.filter((p) => p.name === "operation");
+    expect(operations).toEqual([
+      { displayName: "Operation", name: "operation", type: "options", default: "getAll" },
+    ]);
+    expect(description.properties.some((p) => p.name === "throttlingEnabled")).toBe(true);
+    expect(node.methods?.loadOptions).toHaveProperty("getProjects");
+  });
+
+  it("führt den Basis-Node mit dessen Version aus und meldet die Implementierung einmal", async () => {
+    const node = new (createThrottledNode(demoOptions))();
+    const { ctx, info } = execCtx();
+    expect(await node.execute!.call(ctx)).toEqual([[{ json: { ok: true } }]]);
+    await node.execute!.call(ctx);
+    expect(mockDemo.seenVersion).toBe(2);
+    expect(info).toHaveBeenCalledTimes(1);
+    expect(info).toHaveBeenCalledWith("[Throttling] Using Demo (Demo v2) from n8n-nodes-base/dist/nodes/Demo/Demo.node");
+  });
+
+  it("gibt dem Basis-Node keine Ersatz-Response und stellt die Items zurück", async () => {
+    mockDemo.sendsRequests = true;
+    const httpRequest = jest.fn(async () => ({ statusCode: 429, headers: { "retry-after": "120" }, body: "" }));
+    const { ctx } = execCtx(
+      { throttledOutput: true, deferWaitsAboveMs: 60_000 },
+      [{ json: { id: 1 } }, { json: { id: 2 } }],
+      httpRequest,
+    );
+    const node = new (createThrottledNode(demoOptions))();
+
+    const [success, throttled] = (await node.execute!.call(ctx)) as INodeExecutionData[][];
+    expect(mockDemo.received).toEqual([
+      { error: expect.stringMatching(/item deferred$/) },
+      { error: expect.stringMatching(/item deferred$/) },
+    ]);
+    expect(success).toEqual([]);
+    expect(throttled.map((item: INodeExecutionData) => item.json)).toEqual([
+      { id: 1, $deferred: expect.objectContaining({ statusCode: 429 }) },
+      { id: 2, $deferred: expect.objectContaining({ statusCode: null }) },
+    ]);
+    // Das zweite Item wird zurückgestellt, ohne gesendet zu werden
+    expect(httpRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("nutzt ohne Basis-Node den Fallback", async () => {
+    mockDemo.installed = false;
+    const fallbackDescription = { name: "demoThrottled" } as INodeTypeDescription;
+    const execute = jest.fn(async () => [[{ json: { fallback: true } }]]);
+    const node = new (createThrottledNode({ ...demoOptions, fallback: { description: fallbackDescription, execute } }))();
+    const { ctx, info } = execCtx();
+    expect(node.description).toBe(fallbackDescription);
+    expect(await node.execute!.call(ctx)).toEqual([[{ json: { fallback: true } }]]);
+    expect(execute).toHaveBeenCalledWith(false);
+    expect(info).toHaveBeenCalledWith("[Throttling] Demo node not available, using fallback");
+  });
+
+  it("wirft ohne Basis-Node und ohne Fallback", async () => {
+    mockDemo.installed = false;
+    const node = new (createThrottledNode(demoOptions))();
+    expect(node.description.properties).toEqual([expect.objectContaining({ type: "notice" })]);
+    await expect(node.execute!.call(execCtx().ctx)).rejects.toThrow(/Demo node of n8n-nodes-base is not available/);
+  });
+});
@@ -2,10 +2,21 @@
 
 import {
   computeWaitMs,
+  explainWaitMs,
   applyJitter,
   parseRetryAfterToMs,
   normalizeHeaders,
+  computeSlowdownMs,
+  computePageDelayMs,
+  parseStructuredList,
+  parseRateLimitPolicies,
+  pickLimitingPolicy,
+  parseTimeValueToMs,
+  computeBackoffMs,
+  jitterWaitMs,
   MAX_THROTTLE_WAIT_MS,
+  type BackoffSettings,
+  type HeaderMapping,
 } from "../src/nodes/HttpRequest/throttling";
 
 // ── normalizeHeaders ──────────────────────────────────────────────────────────
@@ -121,6 +132,41 @@ describe("computeWaitMs", () => {
     expect(computeWaitMs({ "Retry-After": "999999" }, DEFAULT)).toBe(MAX_THROTTLE_WAIT_MS);
   });
 
+  it("cappt auf ein konfiguriertes maxWaitMs", () => {
+    expect(computeWaitMs({ "Retry-After": "600" }, DEFAULT, { maxWaitMs: 60_000 })).toBe(60_000);
+    expect(computeWaitMs({ "Retry-After": "600" }, DEFAULT, { maxWaitMs: 900_000 })).toBe(600_000);
+  });
+
+  it("behandelt kleine Reset-Werte als Delta-Sekunden", () => {
+    expect(computeWaitMs({ "RateLimit-Reset": "30" }, DEFAULT)).toBe(30_000);
+  });
+
+  it("nutzt IETF RateLimit-Structured-Field", () => {
+    expect(computeWaitMs({ RateLimit: '"default";r=0;t=30' }, DEFAULT)).toBe(30_000);
+  });
+
+  it("wählt bei mehreren Policies die erschöpfte", () => {
+    expect(
+      computeWaitMs(
+        {
+          RateLimit: '"burst";r=40;t=1, "daily";r=0;t=120',
+          "RateLimit-Policy": '"burst";q=50;w=1, "daily";q=1000;w=86400',
+        },
+        DEFAULT
+      )
+    ).toBe(120_000);
+  });
+
+  it("nutzt das Policy-Fenster wenn t fehlt", () => {
+    expect(
+      computeWaitMs({ RateLimit: '"default";r=0', "RateLimit-Policy": '"default";q=100;w=60' }, DEFAULT)
+    ).toBe(60_000);
+  });
+
+  it("versteht das ältere RateLimit-Dictionary-Format", () => {
+    expect(computeWaitMs({ RateLimit: "limit=100, remaining=0, reset=15" }, DEFAULT)).toBe(15_000);
+  });
+
   it("Retry-After hat Vorrang vor Reset-Timestamp", () => {
     const resetSec = Math.floor(Date.now() / 1000) + 60;
     expect(
@@ -129,6 +175,196 @@ describe("computeWaitMs", () => {
   });
 });
 
+// ── explainWaitMs ─────────────────────────────────────────────────────────────
+
+describe("explainWaitMs", () => {
+  const DEFAULT = 10_000;
+
+  it("nennt die Quelle der Wartezeit", () => {
+    expect(explainWaitMs({ "Retry-After": "3" }, DEFAULT)).toEqual({ waitMs: 3_000, source: "retryAfter" });
+    expect(explainWaitMs({ "RateLimit-Reset": "30" }, DEFAULT)).toEqual({ waitMs: 30_000, source: "reset" });
+    expect(explainWaitMs({}, DEFAULT)).toEqual({ waitMs: DEFAULT, source: "default" });
+  });
+
+  it("unterscheidet Backoff vom festen Default", () => {
+    const backoff: BackoffSettings = { strategy: "exponential", multiplier: 2, maxMs: 0 };
+    expect(explainWaitMs({}, 1_000, { backoff, attempt: 1 })).toEqual({ waitMs: 2_000, source: "backoff" });
+    expect(explainWaitMs({}, 1_000, { backoff: { ...backoff, strategy: "fixed" } }).source).toBe("default");
+  });
+
+  it("meldet eigene Header als customHeader", () => {
+    const headerMappings: HeaderMapping[] = [{ header: "X-Wait", role: "retryAfter", unit: "seconds" }];
+    expect(explainWaitMs({ "X-Wait": "2" }, DEFAULT, { headerMappings }).source).toBe("customHeader");
+  });
+});
+
+// ── IETF RateLimit Structured Fields ──────────────────────────────────────────
+
+describe("parseStructuredList", () => {
+  it("parst Items mit Parametern", () => {
+    expect(parseStructuredList('"default";r=0;t=30, daily;q=1000')).toEqual([
+      { value: '"default"', params: { r: "0", t: "30" } },
+      { value: "daily", params: { q: "1000" } },
+    ]);
+  });
+
+  it("ignoriert Trennzeichen in Anführungszeichen", () => {
+    const [item] = parseStructuredList('"a,b;c";r=1');
+    expect(item.value).toBe('"a,b;c"');
+    expect(item.params).toEqual({ r: "1" });
+  });
+});
+
+describe("parseRateLimitPolicies", () => {
+  it("führt RateLimit und RateLimit-Policy über den Namen zusammen", () => {
+    expect(
+      parseRateLimitPolicies({
+        ratelimit: '"default";r=5;t=30',
+        "ratelimit-policy": '"default";q=100;w=60',
+      })
+    ).toEqual([{ name: "default", remaining: 5, resetSec: 30, quota: 100, windowSec: 60 }]);
+  });
+});
+
+describe("pickLimitingPolicy", () => {
+  const policy = (name: string, remaining: number, quota: number | null, resetSec = 10) => ({
+    name, remaining, resetSec, quota, windowSec: null,
+  });
+
+  it("wählt bei mehreren erschöpften die mit dem spätesten Reset", () => {
+    expect(
+      pickLimitingPolicy([policy("a", 0, null, 5), policy("b", 0, null, 60)])!.name
+    ).toBe("b");
+  });
+
+  it("wählt sonst den kleinsten Restanteil", () => {
+    // 10/1000 = 1% < 40/50 = 80%
+    expect(
+      pickLimitingPolicy([policy("burst", 40, 50), policy("daily", 10, 1000)])!.name
+    ).toBe("daily");
+  });
+
+  it("gibt null zurück ohne Remaining-Angaben", () => {
+    expect(pickLimitingPolicy([])).toBeNull();
+  });
+});
+
+// ── Benutzerdefinierte Header ─────────────────────────────────────────────────
+
+describe("parseTimeValueToMs", () => {
+  it("rechnet Delta-Werte in Millisekunden um", () => {
+    expect(parseTimeValueToMs("1.5", "seconds")).toBe(1_500);
+    expect(parseTimeValueToMs("250", "milliseconds")).toBe(250);
+  });
+
+  it("rechnet Zeitstempel relativ zu jetzt", () => {
+    const inSec = parseTimeValueToMs(String(Math.floor(Date.now() / 1000) + 20), "epochSeconds")!;
+    expect(inSec).toBeGreaterThan(18_000);
+    expect(inSec).toBeLessThanOrEqual(20_000);
+    expect(parseTimeValueToMs(String(Date.now() + 5_000), "epochMilliseconds")).toBeGreaterThan(4_000);
+    expect(parseTimeValueToMs(new Date(Date.now() + 10_000).toUTCString(), "httpDate")).toBeGreaterThan(8_000);
+  });
+
+  it("gibt 0 für vergangene Zeitpunkte und null für Unlesbares zurück", () => {
+    expect(parseTimeValueToMs("1000", "epochSeconds")).toBe(0);
+    expect(parseTimeValueToMs("bald", "seconds")).toBeNull();
+    expect(parseTimeValueToMs("bald", "httpDate")).toBeNull();
+  });
+});
+
+describe("computeWaitMs mit eigenen Headern", () => {
+  const DEFAULT = 10_000;
+  const mappings: HeaderMapping[] = [
+    { header: "X-Quota-Wait", role: "retryAfter", unit: "milliseconds" },
+    { header: "X-Quota-Left", role: "remaining", unit: "seconds" },
+    { header: "X-Quota-Refill", role: "reset", unit: "seconds" },
+  ];
+
+  it("hat Vorrang vor Retry-After", () => {
+    expect(
+      computeWaitMs({ "x-quota-wait": "1200", "Retry-After": "30" }, DEFAULT, { headerMappings: mappings })
+    ).toBe(1_200);
+  });
+
+  it("nutzt eigenes Remaining und Reset", () => {
+    expect(
+      computeWaitMs({ "X-Quota-Left": "0", "X-Quota-Refill": "7" }, DEFAULT, { headerMappings: mappings })
+    ).toBe(7_000);
+  });
+
+  it("fällt auf die Standard-Header zurück, wenn die eigenen fehlen", () => {
+    expect(computeWaitMs({ "Retry-After": "3" }, DEFAULT, { headerMappings: mappings })).toBe(3_000);
+  });
+
+  it("wirkt auch auf computeSlowdownMs", () => {
+    expect(
+      computeSlowdownMs({ "X-Quota-Left": "1", "X-Quota-Refill": "10" }, 5, { headerMappings: mappings })
+    ).toBe(5_000);
+  });
+});
+
+// ── computeSlowdownMs ─────────────────────────────────────────────────────────
+
+describe("computeSlowdownMs", () => {
+  const resetIn = (sec: number) => String(Math.floor(Date.now() / 1000) + sec);
+
+  it("gibt 0 zurück wenn deaktiviert", () => {
+    expect(
+      computeSlowdownMs({ "X-RateLimit-Remaining": "1", "X-RateLimit-Reset": resetIn(10) }, 0)
+    ).toBe(0);
+  });
+
+  it("gibt 0 zurück solange das Kontingent über der Schwelle liegt", () => {
+    expect(
+      computeSlowdownMs({ "X-RateLimit-Remaining": "50", "X-RateLimit-Reset": resetIn(10) }, 10)
+    ).toBe(0);
+  });
+
+  it("verteilt die Zeit bis zum Reset auf die restlichen Requests", () => {
+    const result = computeSlowdownMs(
+      { "X-RateLimit-Remaining": "4", "X-RateLimit-Reset": resetIn(10) },
+      10
+    );
+    // ~10s / 5 = ~2s
+    expect(result).toBeGreaterThan(1_500);
+    expect(result).toBeLessThan(2_500);
+  });
+
+  it("wartet bei Remaining=0 bis zum Reset", () => {
+    const result = computeSlowdownMs(
+      { "RateLimit-Remaining": "0", "RateLimit-Reset": resetIn(5) },
+      10
+    );
+    expect(result).toBeGreaterThan(3_000);
+    expect(result).toBeLessThan(7_000);
+  });
+
+  it("nutzt die limitierende IETF-Policy", () => {
+    expect(computeSlowdownMs({ RateLimit: '"default";r=1;t=10' }, 5)).toBe(5_000);
+  });
+
+  it("gibt 0 zurück ohne Reset-Header", () => {
+    expect(computeSlowdownMs({ "X-RateLimit-Remaining": "1" }, 10)).toBe(0);
+  });
+});
+
+// ── computePageDelayMs ────────────────────────────────────────────────────────
+
+describe("computePageDelayMs", () => {
+  it("verteilt das Restkontingent auch ohne Schwelle", () => {
+    expect(computePageDelayMs({ RateLimit: '"default";r=99;t=10' })).toBe(100);
+    expect(computePageDelayMs({ RateLimit: '"default";r=0;t=10' })).toBe(10_000);
+  });
+
+  it("gibt 0 zurück ohne Kontingent-Header", () => {
+    expect(computePageDelayMs({ "Content-Type": "application/json" })).toBe(0);
+  });
+
+  it("begrenzt die Pause auf maxWaitMs", () => {
+    expect(computePageDelayMs({ RateLimit: '"default";r=0;t=600' }, { maxWaitMs: 30_000 })).toBe(30_000);
+  });
+});
+
 // ── applyJitter ───────────────────────────────────────────────────────────────
 
 describe("applyJitter", () => {
@@ -162,4 +398,130 @@ describe("applyJitter", () => {
       expect(result).toBeLessThanOrEqual(2000);
     }
   });
+
+  it("full: liegt zwischen 0 und base", () => {
+    for (let i = 0; i < 50; i++) {
+      const result = applyJitter(1000, 25, "full");
+      expect(result).toBeGreaterThanOrEqual(0);
+      expect(result).toBeLessThanOrEqual(1000);
+    }
+  });
+
+  it("decorrelated: liegt zwischen base und 3 × vorheriger Wartezeit", () => {
+    for (let i = 0; i < 50; i++) {
+      const result = applyJitter(1000, 25, "decorrelated", 4000);
+      expect(result).toBeGreaterThanOrEqual(1000);
+      expect(result).toBeLessThanOrEqual(12_000);
+    }
+  });
+});
+
+// ── computeBackoffMs ──────────────────────────────────────────────────────────
+
+describe("computeBackoffMs", () => {
+  const settings = (strategy: BackoffSettings["strategy"], maxMs = 60_000): BackoffSettings => ({
+    strategy, multiplier: 2, maxMs,
+  });
+
+  it("fixed: immer der Basiswert", () => {
+    expect(computeBackoffMs(1000, 0, settings("fixed"))).toBe(1000);
+    expect(computeBackoffMs(1000, 4, settings("fixed"))).toBe(1000);
+  });
+
+  it("fixed: kappt die Default-Wartezeit nicht auf die ausgeblendete Obergrenze", () => {
+    expect(computeBackoffMs(120_000, 0, settings("fixed"))).toBe(120_000);
+    expect(explainWaitMs({}, 120_000, { backoff: settings("fixed"), attempt: 0, maxWaitMs: 300_000 }))
+      .toEqual({ waitMs: 120_000, source: "default" });
+  });
+
+  it("linear: wächst mit der Versuchsnummer", () => {
+    expect(computeBackoffMs(1000, 0, settings("linear"))).toBe(1000);
+    expect(computeBackoffMs(1000, 2, settings("linear"))).toBe(3000);
+  });
+
+  it("exponential: wächst mit dem Multiplikator bis zur Obergrenze", () => {
+    expect(computeBackoffMs(1000, 0, settings("exponential"))).toBe(1000);
+    expect(computeBackoffMs(1000, 3, settings("exponential"))).toBe(8000);
+    expect(computeBackoffMs(1000, 10, settings("exponential", 5000))).toBe(5000);
+  });
+
+  it("fullJitter: bleibt unter der exponentiellen Wartezeit", () => {
+    for (let i = 0; i < 50; i++) {
+      const result = computeBackoffMs(1000, 3, settings("fullJitter"));
+      expect(result).toBeGreaterThanOrEqual(0);
+      expect(result).toBeLessThanOrEqual(8000);
+    }
+  });
+
+  it("decorrelatedJitter: nutzt die vorherige Wartezeit und die Obergrenze", () => {
+    for (let i = 0; i < 50; i++) {
+      const result = computeBackoffMs(1000, 3, settings("decorrelatedJitter", 5000), 4000);
+      expect(result).toBeGreaterThanOrEqual(1000);
+      expect(result).toBeLessThanOrEqual(5000);
+    }
+  });
+
+  it("Obergrenze 0 fällt auf MAX_THROTTLE_WAIT_MS zurück", () => {
+    expect(computeBackoffMs(1000, 30, settings("exponential", 0))).toBe(MAX_THROTTLE_WAIT_MS);
+  });
+
+  it("greift in computeWaitMs nur ohne Header-Angabe", () => {
+    const backoff = settings("exponential");
+    expect(computeWaitMs({}, 1000, { backoff, attempt: 2 })).toBe(4000);
+    expect(computeWaitMs({ "Retry-After": "3" }, 1000, { backoff, attempt: 2 })).toBe(3000);
+  });
 });
+// ── jitterWaitMs ──────────────────────────────────────────────────────────────
+
+describe("jitterWaitMs", () => {
+  const backoff = (strategy: BackoffSettings["strategy"]): BackoffSettings => ({
+    strategy, multiplier: 2, maxMs: 5_000,
+  });
+  const bounds = (strategy: BackoffSettings["strategy"], attempt: number, previousMs?: number) => {
+    const waits = Array.from({ length: 200 }, () =>
+      jitterWaitMs(computeBackoffMs(1_000, attempt, backoff(strategy), previousMs), "backoff", 50, backoff(strategy)));
+    return [Math.min(...waits), Math.max(...waits)];
+  };
+
+  it("streut fixed, linear und exponential um ±Jitter und kappt auf die Obergrenze", () => {
+    const [fixedMin, fixedMax] = bounds("fixed", 0);
+    expect(fixedMin).toBeGreaterThanOrEqual(500);
+    expect(fixedMax).toBeLessThanOrEqual(1_500);
+    const [linearMin, linearMax] = bounds("linear", 2);
+    expect(linearMin).toBeGreaterThanOrEqual(1_500);
+    expect(linearMax).toBeLessThanOrEqual(4_500);
+    // 4000ms ± 50% überschreitet die Obergrenze von 5000ms nicht
+    const [expMin, expMax] = bounds("exponential", 2);
+    expect(expMin).toBeGreaterThanOrEqual(2_000);
+    expect(expMax).toBeLessThanOrEqual(5_000);
+  });
+
+  it("kappt fixed auch nach dem Jitter nicht", () => {
+    for (let i = 0; i < 50; i++) {
+      const wait = jitterWaitMs(8_000, "default", 25, backoff("fixed"));
+      expect(wait).toBeGreaterThanOrEqual(6_000);
+      expect(wait).toBeLessThanOrEqual(10_000);
+    }
+  });
+
+  it("streut fullJitter nicht ein zweites Mal", () => {
+    const [min, max] = bounds("fullJitter", 2);
+    expect(min).toBeGreaterThanOrEqual(0);
+    expect(max).toBeLessThanOrEqual(4_000);
+  });
+
+  it("streut decorrelatedJitter nicht ein zweites Mal", () => {
+    const [min, max] = bounds("decorrelatedJitter", 2, 4_000);
+    expect(min).toBeGreaterThanOrEqual(1_000);
+    expect(max).toBeLessThanOrEqual(5_000);
+  });
+
+  it("streut Header-Wartezeiten auch bei Jitter-Strategien, ohne Backoff-Obergrenze", () => {
+    for (let i = 0; i < 50; i++) {
+      const wait = jitterWaitMs(10_000, "retryAfter", 25, backoff("fullJitter"));
+      expect(wait).toBeGreaterThanOrEqual(7_500);
+      expect(wait).toBeLessThanOrEqual(12_500);
+    }
+  });
+});
+
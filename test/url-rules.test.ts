@@ -0,0 +1,97 @@
+// test/url-rules.test.ts
+
+import {
+  parseUrlRules,
+  matchUrlRule,
+  configForUrl,
+} from "../src/nodes/HttpRequest/url-rules";
+import type { ThrottleConfig } from "../src/nodes/HttpRequest/throttle-wrapper";
+
+// ── parseUrlRules ─────────────────────────────────────────────────────────────
+
+describe("parseUrlRules", () => {
+  it("übernimmt nur gesetzte Einstellungen", () => {
+    const [rule] = parseUrlRules([
+      { match: "host", pattern: " api.github.com ", throttleCodes: [], defaultWaitMs: 0, maxThrottleTries: 10, backoffStrategy: "" },
+    ]);
+    expect(rule.pattern).toBe("api.github.com");
+    expect(rule.overrides).toEqual({ maxRetries: 10 });
+  });
+
+  it("überspringt Regeln ohne Muster", () => {
+    expect(parseUrlRules([{ match: "glob", pattern: "  " }])).toEqual([]);
+  });
+
+  it("wirft bei ungültigem regulärem Ausdruck", () => {
+    expect(() => parseUrlRules([{ match: "host", pattern: "a" }, { match: "regex", pattern: "(" }])).toThrow(
+      /URL rule 2: invalid regular expression/,
+    );
+  });
+});
+
+// ── matchUrlRule ──────────────────────────────────────────────────────────────
+
+describe("matchUrlRule", () => {
+  const rules = parseUrlRules([
+    { match: "host", pattern: "*.myshopify.com", maxThrottleTries: 2 },
+    { match: "glob", pattern: "https://api.example.com/v2/*", maxThrottleTries: 3 },
+    { match: "regex", pattern: "/search\\b", maxThrottleTries: 4 },
+    { match: "host", pattern: "api.example.com", maxThrottleTries: 5 },
+  ]);
+  const retriesFor = (url: string) => matchUrlRule(rules, url)?.overrides.maxRetries;
+
+  it("vergleicht Hosts mit Platzhaltern, ohne Groß-/Kleinschreibung", () => {
+    expect(retriesFor("https://Shop-1.myshopify.com/admin/api/graphql.json")).toBe(2);
+    expect(retriesFor("https://myshopify.com/")).toBeUndefined();
+  });
+
+  it("vergleicht Hosts ohne Port", () => {
+    expect(retriesFor("https://api.example.com:8443/v1/items")).toBe(5);
+    expect(retriesFor("http://shop-1.myshopify.com:8080/")).toBe(2);
+  });
+
+  it("nimmt die erste passende Regel", () => {
+    expect(retriesFor("https://api.example.com/v2/search?q=x")).toBe(3);
+    expect(retriesFor("https://api.example.com/v1/search?q=x")).toBe(4);
+    expect(retriesFor("https://api.example.com/v1/items")).toBe(5);
+  });
+
+  it("behandelt Sonderzeichen im Glob wörtlich", () => {
+    const [rule] = parseUrlRules([{ match: "glob", pattern: "https://a.io/items?id=*" }]);
+    expect(matchUrlRule([rule], "https://a.io/items?id=7")).toBe(rule);
+    expect(matchUrlRule([rule], "https://aXio/items?id=7")).toBeNull();
+  });
+
+  it("gibt null zurück ohne URL oder ohne Treffer", () => {
+    expect(matchUrlRule(rules, undefined)).toBeNull();
+    expect(matchUrlRule(rules, "https://other.io/")).toBeNull();
+  });
+});
+
+// ── configForUrl ──────────────────────────────────────────────────────────────
+
+describe("configForUrl", () => {
+  const config = {
+    codes: new Set(["429"]),
+    defaultWaitMs: 5_000,
+    maxRetries: 5,
+    maxWaitMs: 300_000,
+    backoff: { strategy: "fixed", multiplier: 2, maxMs: 60_000 },
+    waitBudget: { executionMs: 0, itemMs: new Map() },
+    urlRules: parseUrlRules([
+      { match: "host", pattern: "api.github.com", throttleCodes: ["403", "429"], backoffStrategy: "exponential" },
+    ]),
+  } as unknown as ThrottleConfig;
+
+  it("wendet die Einstellungen der passenden Regel an und teilt den Zustand", () => {
+    const effective = configForUrl(config, "https://api.github.com/repos");
+    expect([...effective.codes]).toEqual(["403", "429"]);
+    expect(effective.backoff).toEqual({ strategy: "exponential", multiplier: 2, maxMs: 60_000 });
+    expect(effective.defaultWaitMs).toBe(5_000);
+    expect(effective.waitBudget).toBe(config.waitBudget);
+  });
+
+  it("gibt ohne Treffer die Node-Einstellungen zurück", () => {
+    expect(configForUrl(config, "https://api.example.com/")).toBe(config);
+  });
+});